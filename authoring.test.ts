@@ -0,0 +1,121 @@
+import test from 'tape';
+
+import {furiganaToText, htmlToText, parseFuriganaText, textToHtml} from './authoring';
+import {findQuizzables, lint} from './lint';
+import {parseHtml, parseQuizzable, parseSentences} from './parser';
+
+const page = `<h2>Songs</h2>
+
+少{すこ}しでも良{よ}くするこの生{せい}活{かつ}
+Improve this life, even just a little
+fr: Améliorer cette vie
+- particle: で
+- particle#1: も
+- conj: 良くする：良{よ}い ＋ する
+- vocab: 少し・寡し「すこし」：① small quantity #1348870
+
+# Words
+- vocab: 犬「いぬ」：dog & puppy
+- particle: は
+
+<script>
+  client.setup();
+</script>
+`;
+
+test('furigana', t => {
+  t.deepEqual(parseFuriganaText('やる事{こと}明{めい}確{かく}'),
+              ['やる', {ruby: '事', rt: 'こと'}, {ruby: '明', rt: 'めい'}, {ruby: '確', rt: 'かく'}]);
+  t.deepEqual(parseFuriganaText('私達{たち}'), [{ruby: '私達', rt: 'たち'}], 'every kanji before the braces');
+  t.deepEqual(parseFuriganaText('私[達]{たち}と[ｘ]{えっくす}'),
+              ['私', {ruby: '達', rt: 'たち'}, 'と', {ruby: 'ｘ', rt: 'えっくす'}]);
+  t.throws(() => parseFuriganaText('ねこ{ネコ}'), /no kanji before \{ネコ\}/);
+
+  t.equal(furiganaToText(['私', {ruby: '達', rt: 'たち'}, 'と', {ruby: 'ｘ', rt: 'えっくす'}, {ruby: '犬'}]),
+          '私[達]{たち}と[ｘ]{えっくす}犬');
+  t.end();
+});
+
+test('text to HTML', t => {
+  const html = textToHtml(page);
+  t.ok(html.startsWith('<h2>Songs</h2>\n\n<details class="quizzable">'));
+  t.ok(html.endsWith('<script>\n  client.setup();\n</script>\n'));
+  t.deepEqual(lint(findQuizzables(parseHtml(html))), []);
+
+  const [sentence] = parseSentences(html);
+  t.deepEqual(sentence.furigana, [
+    {ruby: '少', rt: 'すこ'},
+    'しでも',
+    {ruby: '良', rt: 'よ'},
+    'くするこの',
+    {ruby: '生', rt: 'せい'},
+    {ruby: '活', rt: 'かつ'},
+  ]);
+  t.deepEqual(sentence.translation, {en: 'Improve this life, even just a little', fr: 'Améliorer cette vie'});
+  t.deepEqual(sentence.subfacts.map(o => o.keys[0]), [
+    'model/少しでも良くするこの生活/particle/_で_',
+    'model/少しでも良くするこの生活/particle/_も_',
+    'model/少しでも良くするこの生活/conjugated/良くする',
+    'model/#1348870/meaning',
+  ]);
+  const [, details] = findQuizzables(parseHtml(html));
+  const glossary = parseQuizzable(details);
+  t.deepEqual(glossary && glossary.type === 'glossary' && [glossary.title, glossary.facts.map(o => o.keys[0])],
+              ['Words', ['model/犬,いぬ/meaning', 'model/は/particle/_は_']]);
+  t.ok(html.includes('<li class="quizzable vocab">犬「いぬ」：dog &amp; puppy</li>'));
+  t.ok(html.includes('<li class="quizzable particle" data-occurrence="1">も</li>'));
+  t.end();
+});
+
+test('production', t => {
+  const text = '犬{いぬ}だ\nA dog\n- production\n- vocab: 犬「いぬ」：dog\n\n猫{ねこ}だ\nA cat\n';
+  const html = textToHtml(text);
+  t.ok(html.startsWith('<details class="quizzable production">'));
+  t.deepEqual(parseSentences(html)[0].keys, ['model/犬だ/meaning', 'model/犬だ/reading', 'model/犬だ/production']);
+  t.equal(htmlToText(html), text);
+  t.throws(() => textToHtml('# Words\n- production'), /^Error: line 2: expected vocab:/, 'glossaries have no sentence');
+
+  const page = '@production\n\n犬{いぬ}だ\nA dog\n\n猫{ねこ}だ\nA cat\n';
+  const pageHtml = textToHtml(page);
+  t.deepEqual(parseSentences(pageHtml).map(o => o.keys[2]), ['model/犬だ/production', 'model/猫だ/production']);
+  t.equal(htmlToText(pageHtml), page);
+  t.equal(htmlToText(textToHtml('猫{ねこ}だ\n\n@production')), '@production\n\n猫{ねこ}だ\n', 'anywhere on the page');
+  t.throws(() => textToHtml('犬だ\n\n@productoin'), /^Error: line 3: expected a block with just @production/);
+  t.end();
+});
+
+test('errors have line numbers', t => {
+  t.throws(() => textToHtml('<p>hi</p>\n\n文\n- kanji: 文'), /^Error: line 4: expected vocab:, particle: or conj:/);
+  t.throws(() => textToHtml('# Words\n- particle は'), /^Error: line 2: expected vocab:/);
+  t.throws(() => textToHtml('# Words\n- particle: は\nWords'), /^Error: line 3: glossaries have no translations/);
+  t.end();
+});
+
+test('round trips', t => {
+  t.equal(htmlToText(textToHtml(page)), page);
+  const definition = '① this (something or someone close to the speaker, or ideas expressed by the speaker) #1582920';
+  const html = `<!doctype html>
+<details class="quizzable">
+  <summary>
+    <span class="quizzable sentence">
+      やる<ruby>事<rt>こと</rt></ruby><ruby>明<rt>めい</rt></ruby><ruby>確<rt>かく</rt></ruby>
+    </span>
+  </summary>
+  <ul>
+    <li class="translation en">- fr: tricky</li>
+    <li class="quizzable vocab">此の・斯の「この」：${definition.replace(', or ', ', or\n      ')}</li>
+  </ul>
+</details>`;
+  const text = htmlToText(html);
+  t.equal(text, `<!doctype html>
+
+やる事{こと}明{めい}確{かく}
+en: - fr: tricky
+- vocab: 此の・斯の「この」：${definition}
+`);
+  const [before] = parseSentences(html);
+  const [after] = parseSentences(textToHtml(text));
+  t.deepEqual([after.keys, after.subfacts.map(o => o.keys), after.translation],
+              [before.keys, before.subfacts.map(o => o.keys), before.translation]);
+  t.end();
+});
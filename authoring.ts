@@ -0,0 +1,226 @@
+/**
+A compact text format for quizzable pages, compiled to the HTML `setup` understands (and back, to migrate old pages).
+Blocks are separated by blank lines. A sentence looks like
+
+    少{すこ}しでも良{よ}くするこの生{せい}活{かつ}
+    Improve this life, even just a little
+    - particle: で
+    - conj: 良くする：良{よ}い ＋ する
+    - vocab: 少し・寡し「すこし」：① small quantity #1348870
+
+that is, the sentence (`漢字{かんじ}` puts furigana on the kanji right before the braces, `[base]{reading}` on
+anything), its translations (English unless prefixed by a language, like `fr: ...`) and its facts (`particle#2:` is the
+second of several identical particles, i.e., `data-occurrence="2"`). A `- production` line opts the sentence into
+production quizzes (`<details class="quizzable production">`), and a block that's just `@production` opts in every
+sentence on the page. A block starting with `# Title` followed by facts is a glossary. A block starting with `<` is
+HTML, copied as is (so it can't have blank lines).
+
+Usage: `node authoring.js page.txt > page.html` and `node authoring.js --to-text page.html > page.txt`.
+*/
+import {hasKanji} from 'curtiz-utils';
+import {readFileSync} from 'fs';
+
+import {findQuizzables} from './lint';
+import {
+  classes,
+  findAll,
+  Furigana,
+  hasClasses,
+  HtmlElement,
+  nodesToFurigana,
+  parseHtml,
+  textContent
+} from './parser';
+
+// Bullet prefixes and the `<li class="quizzable ...">` they stand for
+const FACT_CLASSES: Record<string, string> = {
+  vocab: 'vocab',
+  particle: 'particle',
+  conj: 'conjugated',
+};
+const BULLET = /^[-*]\s+/;
+const PRODUCTION = /^[-*]\s+production$/;
+const PAGE_PRODUCTION = '@production';
+const LANG = /^([a-z]{2,3}):\s*/;
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function kanjiSuffix(s: string): string {
+  const chars = Array.from(s);
+  let i = chars.length;
+  while (i > 0 && hasKanji(chars[i - 1])) { i--; }
+  return chars.slice(i).join('');
+}
+/** `漢字{かんじ}` and `[base]{reading}` to furigana */
+export function parseFuriganaText(s: string): Furigana[] {
+  const ret: Furigana[] = [];
+  const re = /\[([^\]{}]*)\]\{([^{}]*)\}|\{([^{}]*)\}/g;
+  let last = 0;
+  for (let match = re.exec(s); match; match = re.exec(s)) {
+    const before = s.slice(last, match.index);
+    last = re.lastIndex;
+    if (typeof match[1] === 'string') {
+      ret.push(before, {ruby: match[1], rt: match[2]});
+      continue;
+    }
+    const ruby = kanjiSuffix(before);
+    if (!ruby) { throw new Error(`no kanji before {${match[3]}}, use [base]{reading}: ${s}`); }
+    ret.push(before.slice(0, before.length - ruby.length), {ruby, rt: match[3]});
+  }
+  ret.push(s.slice(last));
+  return ret.filter(o => o !== '');
+}
+export function furiganaToText(v: Furigana[]): string {
+  let ret = '';
+  for (const o of v) {
+    if (typeof o === 'string' || !o.rt) {
+      ret += typeof o === 'string' ? o : o.ruby;
+    } else {
+      // the short form would also grab any kanji right before this
+      const short = kanjiSuffix(o.ruby) === o.ruby && !kanjiSuffix(ret);
+      ret += short ? `${o.ruby}{${o.rt}}` : `[${o.ruby}]{${o.rt}}`;
+    }
+  }
+  return ret;
+}
+function furiganaToHtml(v: Furigana[]): string {
+  return v
+      .map(o => typeof o === 'string' ? escapeHtml(o)
+                                      : `<ruby>${escapeHtml(o.ruby)}<rt>${escapeHtml(o.rt || '')}</rt></ruby>`)
+      .join('');
+}
+
+function factToHtml(line: string, lineNumber: number): string {
+  const match = line.replace(BULLET, '').match(/^(\w+)(?:#(\d+))?\s*:\s*(.*)$/);
+  const cls = match && FACT_CLASSES[match[1]];
+  if (!match || !cls) { throw new Error(`line ${lineNumber}: expected vocab:, particle: or conj:, got ${line}`); }
+  const [, , occurrence, text] = match;
+  const attrs = `class="quizzable ${cls}"` + (occurrence ? ` data-occurrence="${occurrence}"` : '');
+  // only conjugated phrases' hints have furigana (see `elementToFact`)
+  const inner = cls === 'conjugated' ? furiganaToHtml(parseFuriganaText(text)) : escapeHtml(text);
+  return `    <li ${attrs}>${inner}</li>`;
+}
+
+function isHtml(line: string) { return line.trim().startsWith('<'); }
+function blockToHtml(lines: string[], firstLine: number, production: boolean): string {
+  if (isHtml(lines[0])) { return lines.join('\n'); }
+  const items: string[] = [];
+  let summary: string;
+  const title = lines[0].match(/^#(?:\s+(.*))?$/);
+  if (title) {
+    summary = `  <summary>${escapeHtml(title[1] || '')}</summary>`;
+  } else {
+    const sentence = furiganaToHtml(parseFuriganaText(lines[0]));
+    summary = `  <summary>\n    <span class="quizzable sentence">${sentence}</span>\n  </summary>`;
+  }
+  lines.slice(1).forEach((line, i) => {
+    const lineNumber = firstLine + 1 + i;
+    if (PRODUCTION.test(line) && !title) {
+      production = true;
+    } else if (BULLET.test(line)) {
+      items.push(factToHtml(line, lineNumber));
+    } else if (title) {
+      throw new Error(`line ${lineNumber}: glossaries have no translations, got ${line}`);
+    } else {
+      const lang = line.match(LANG);
+      const text = lang ? line.slice(lang[0].length) : line;
+      items.push(`    <li class="translation ${lang ? lang[1] : 'en'}">${escapeHtml(text)}</li>`);
+    }
+  });
+  const cls = production ? 'quizzable production' : 'quizzable';
+  return `<details class="${cls}">\n${summary}\n  <ul>\n${items.join('\n')}\n  </ul>\n</details>`;
+}
+
+/** Compiles the text format (see the top of this file) to HTML. Throws, with a line number, on what isn't valid. */
+export function textToHtml(text: string): string {
+  const blocks: {lines: string[], firstLine: number}[] = [];
+  let lines: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim()) {
+      if (lines.length === 0) { blocks.push({lines, firstLine: i + 1}); }
+      lines.push(isHtml(lines.length ? lines[0] : line) ? line.trimRight() : line.trim());
+    } else {
+      lines = [];
+    }
+  });
+  // directives apply to the whole page, wherever they are
+  let production = false;
+  const facts = blocks.filter(({lines, firstLine}) => {
+    if (!lines[0].startsWith('@')) { return true; }
+    if (lines.length > 1 || lines[0] !== PAGE_PRODUCTION) {
+      throw new Error(`line ${firstLine}: expected a block with just ${PAGE_PRODUCTION}, got ${lines.join(' ')}`);
+    }
+    production = true;
+    return false;
+  });
+  return facts.map(({lines, firstLine}) => blockToHtml(lines, firstLine, production)).join('\n\n') + '\n';
+}
+
+function oneLine(s: string): string { return s.replace(/\s+/g, ' ').trim(); }
+function detailsToText(details: HtmlElement, pageProduction: boolean): string {
+  const lines: string[] = [];
+  const [sentence] = findAll(details.children, elt => hasClasses(elt, 'quizzable', 'sentence'));
+  if (sentence) {
+    lines.push(oneLine(furiganaToText(nodesToFurigana(sentence.children))));
+  } else {
+    const [summary] = findAll(details.children, elt => elt.name === 'summary');
+    lines.push('# ' + (summary ? oneLine(textContent(summary)) : ''));
+  }
+  for (const elt of findAll(details.children, elt => hasClasses(elt, 'translation'))) {
+    const lang = classes(elt).find(s => s !== 'translation') || 'en';
+    const text = oneLine(textContent(elt));
+    // a translation that looks like a fact or has a language already needs its language spelled out
+    lines.push(lang === 'en' && !LANG.test(text) && !BULLET.test(text) ? text : `${lang}: ${text}`);
+  }
+  if (sentence && !pageProduction && hasClasses(details, 'production')) { lines.push('- production'); }
+  const facts = findAll(details.children, elt => hasClasses(elt, 'quizzable') && !hasClasses(elt, 'sentence'));
+  for (const elt of facts) {
+    const cls = classes(elt).find(s => s !== 'quizzable') || '';
+    const prefix = Object.keys(FACT_CLASSES).find(key => FACT_CLASSES[key] === cls) || cls;
+    const occurrence = elt.attribs['data-occurrence'] ? '#' + elt.attribs['data-occurrence'] : '';
+    const text = cls === 'conjugated' ? furiganaToText(nodesToFurigana(elt.children)) : textContent(elt);
+    lines.push(`- ${prefix}${occurrence}: ${oneLine(text)}`);
+  }
+  return lines.join('\n');
+}
+
+/** Converts a page to the text format: its quizzables are converted, everything else is kept as HTML. */
+export function htmlToText(html: string): string {
+  const blocks: string[] = [];
+  const keepHtml = (s: string) => {
+    const lines = s.split(/\r?\n/).filter(line => line.trim()).map(line => line.trimRight());
+    if (lines.length) { blocks.push(lines.join('\n')); }
+  };
+  const quizzables = findQuizzables(parseHtml(html));
+  // every sentence has production quizzes: that's `@production`
+  const sentences =
+      quizzables.filter(details => findAll(details.children, elt => hasClasses(elt, 'quizzable', 'sentence')).length);
+  const production = sentences.length > 0 && sentences.every(details => hasClasses(details, 'production'));
+  if (production) { blocks.push(PAGE_PRODUCTION); }
+  let last = 0;
+  for (const details of quizzables) {
+    // quizzables inside quizzables are converted along with their parents
+    if (typeof details.start !== 'number' || typeof details.end !== 'number' || details.start < last) { continue; }
+    keepHtml(html.slice(last, details.start));
+    blocks.push(detailsToText(details, production));
+    last = details.end + 1;
+  }
+  keepHtml(html.slice(last));
+  return blocks.join('\n\n') + '\n';
+}
+
+function main(args: string[]) {
+  const toText = args[0] === '--to-text';
+  const files = toText ? args.slice(1) : args;
+  if (files.length !== 1) {
+    console.error(
+        'usage: node authoring.js page.txt > page.html\n   or: node authoring.js --to-text page.html > page.txt');
+    process.exitCode = 2;
+    return;
+  }
+  const input = readFileSync(files[0], 'utf8');
+  process.stdout.write(toText ? htmlToText(input) : textToHtml(input));
+}
+if (require.main === module) { main(process.argv.slice(2)); }
@@ -0,0 +1,43 @@
+import PouchDB from 'pouchdb';
+import test from 'tape';
+
+import {exportBackup, importBackup} from './backup';
+import {KEY_SCHEME_VERSION} from './keys';
+import {Memory, QuizEvent} from './memory';
+
+PouchDB.plugin(require('pouchdb-adapter-memory'));
+
+const memory = (lastSeen: string): Memory => ({version: '1', ebisu: [3, 3, 1], lastSeen});
+const event = (modelKey: string): QuizEvent => ({
+  version: '1',
+  modelKey,
+  active: true,
+  date: '2020-06-01T00:00:00.000Z',
+  result: true,
+  newEbisu: [3, 3, 1],
+  oldEbisu: [3, 3, 1],
+  lastSeen: '2020-01-01T00:00:00.000Z',
+  extra: {}
+});
+
+test('backups from before the current key scheme', async t => {
+  const db = new PouchDB('backup-test', {adapter: 'memory'});
+  const legacy = {
+    format: 'kaisei-backup',
+    version: 1,
+    exported: '2020-06-01T00:00:00.000Z',
+    memories: {'model/100%だ/meaning': memory('2020-01-01'), 'model/犬/meaning': memory('2020-01-01')},
+    events: {'quiz/1': event('model/100%だ/meaning')},
+  };
+  const report = await importBackup(db, legacy);
+  t.deepEqual([report.memoriesAdded, report.eventsAdded, report.rejected], [2, 1, []]);
+  const backup = await exportBackup(db);
+  t.equal(backup.keyScheme, KEY_SCHEME_VERSION);
+  t.deepEqual(Object.keys(backup.memories).sort(), ['model/100%25だ/meaning', 'model/犬/meaning'], 'upgraded');
+  t.equal(backup.events['quiz/1'].modelKey, 'model/100%25だ/meaning');
+
+  // and exporting then importing changes nothing
+  const again = await importBackup(db, backup);
+  t.deepEqual([again.memoriesAdded, again.memoriesKept, again.eventsSkipped], [0, 2, 1]);
+  await db.destroy();
+});
@@ -0,0 +1,175 @@
+import {KEY_SCHEME_VERSION, upgradeLegacyModelKey} from './keys';
+import {LogEvent, Memory} from './memory';
+
+type Db = PouchDB.Database<{}>;
+
+/** Everything needed to restore learning progress on another device, as a single JSON-friendly object */
+export interface Backup {
+  format: 'kaisei-backup';
+  version: 1;
+  exported: string;
+  keyScheme?: number;                // `KEY_SCHEME_VERSION` when exported: absent if exported before keys were escaped
+  memories: Record<string, Memory>;  // keyed by `model/...` doc id
+  events: Record<string, LogEvent>;  // keyed by `quiz/...` doc id
+}
+export interface ImportReport {
+  memoriesAdded: number;
+  memoriesUpdated: number;
+  memoriesKept: number;  // already in the database and at least as recent as the backup's
+  eventsAdded: number;
+  eventsSkipped: number;  // already in the database
+  rejected: {id: string, reason: string}[];
+}
+
+export async function exportBackup(db: Db, date?: Date): Promise<Backup> {
+  const memories: Backup['memories'] = {};
+  const events: Backup['events'] = {};
+  for (const [prefix, dest] of [['model/', memories], ['quiz/', events]] as [string, Record<string, {}>][]) {
+    const res = await db.allDocs({startkey: prefix, endkey: prefix + '\ufff0', include_docs: true});
+    for (const row of res.rows) {
+      if (!row.doc) { continue; }
+      const {_id, _rev, ...doc} = row.doc;
+      dest[_id] = doc;
+    }
+  }
+  const exported = (date || new Date()).toISOString();
+  return {format: 'kaisei-backup', version: 1, exported, keyScheme: KEY_SCHEME_VERSION, memories, events};
+}
+
+const CSV_COLUMNS = [
+  'id', 'eventType', 'modelKey', 'date', 'active', 'result', 'response', 'rawResponse', 'grade', 'nearMiss', 'attempts',
+  'lastSeen', 'elapsedHours', 'oldAlpha', 'oldBeta', 'oldT', 'newAlpha', 'newBeta', 'newT', 'scale', 'undone'
+];
+/** One row per event, for spreadsheets, Pandas, etc. Columns that don't apply to an event type are left empty. */
+export function eventsToCsv(events: Backup['events']): string {
+  const sorted = Object.entries(events).sort(([, a], [, b]) => a.date < b.date ? -1 : a.date > b.date ? 1 : 0);
+  const rows = sorted.map(([id, e]) => {
+    const elapsedHours = (new Date(e.date).valueOf() - new Date(e.lastSeen).valueOf()) / 3600e3;
+    if (e.eventType === 'rescale') {
+      return [
+        id, e.eventType, e.modelKey, e.date, '', '', '', '', '', '', '', e.lastSeen, elapsedHours, ...e.oldEbisu,
+        ...e.newEbisu, e.scale, ''
+      ];
+    }
+    const {response = '', rawResponse = '', grade = '', nearMiss = '', attempts = ''} = e.extra;
+    return [
+      id, 'review', e.modelKey, e.date, e.active, e.result, response, rawResponse, grade, nearMiss, attempts,
+      e.lastSeen, elapsedHours, ...e.oldEbisu, ...e.newEbisu, '', e.undone || ''
+    ];
+  });
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvEscape).join(',')).join('\n') + '\n';
+}
+function csvEscape(x: string|number|boolean): string {
+  const s = String(x);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function isEbisuModel(x: any): boolean {
+  return Array.isArray(x) && x.length === 3 && x.every(n => typeof n === 'number' && isFinite(n));
+}
+function isDate(x: any): boolean { return typeof x === 'string' && !isNaN(new Date(x).valueOf()); }
+
+function validateMemory(x: any): string {
+  if (!x || typeof x !== 'object') { return 'not an object'; }
+  if (x.version !== '1') { return `unknown Memory version ${JSON.stringify(x.version)}`; }
+  if (!isEbisuModel(x.ebisu)) { return 'invalid ebisu model'; }
+  if (!isDate(x.lastSeen)) { return 'invalid lastSeen'; }
+  return '';
+}
+function validateEvent(x: any): string {
+  if (!x || typeof x !== 'object') { return 'not an object'; }
+  if (x.version !== '1') { return `unknown QuizEvent version ${JSON.stringify(x.version)}`; }
+  if (typeof x.modelKey !== 'string' || !x.modelKey.startsWith('model/')) { return 'invalid modelKey'; }
+  if (!isEbisuModel(x.oldEbisu) || !isEbisuModel(x.newEbisu)) { return 'invalid ebisu model'; }
+  if (!isDate(x.date) || !isDate(x.lastSeen)) { return 'invalid date/lastSeen'; }
+  if (x.eventType === 'rescale') {
+    if (!(typeof x.scale === 'number' && x.scale > 0 && isFinite(x.scale))) { return 'invalid scale'; }
+    return '';
+  }
+  if ('eventType' in x && x.eventType !== 'review') { return `unknown eventType ${JSON.stringify(x.eventType)}`; }
+  if (typeof x.active !== 'boolean' || typeof x.result !== 'boolean') { return 'invalid active/result'; }
+  if (!x.extra || typeof x.extra !== 'object') { return 'invalid extra'; }
+  if ('undone' in x && !isDate(x.undone)) { return 'invalid undone'; }
+  return '';
+}
+
+/**
+Merges a backup (e.g., `JSON.parse` of an exported file) into `db`. Memories overwrite the database's only if they were
+seen more recently. Events are never overwritten and are skipped if the database already has them, either under the
+same id or as an identical review (same memory, date and active/passive). Invalid records are reported, not imported.
+Keys in backups from before the current key scheme are upgraded, since the database's own were migrated just once.
+Throws if `backup` isn't a backup at all.
+*/
+export async function importBackup(db: Db, backup: any): Promise<ImportReport> {
+  if (!backup || backup.format !== 'kaisei-backup') { throw new Error('not a Kaisei backup'); }
+  if (backup.version !== 1) { throw new Error(`unknown backup version ${JSON.stringify(backup.version)}`); }
+
+  const report: ImportReport =
+      {memoriesAdded: 0, memoriesUpdated: 0, memoriesKept: 0, eventsAdded: 0, eventsSkipped: 0, rejected: []};
+  const upgrade = (backup.keyScheme || 1) < KEY_SCHEME_VERSION ? upgradeLegacyModelKey : (key: string) => key;
+  // several legacy keys might upgrade to the same key: keep the most recently seen
+  const latest: Map<string, Memory> = new Map();
+  for (const [id, memory] of Object.entries(backup.memories || {})) {
+    const reason = id.startsWith('model/') ? validateMemory(memory) : 'invalid id';
+    if (reason) {
+      report.rejected.push({id, reason});
+      continue;
+    }
+    const key = upgrade(id);
+    const other = latest.get(key);
+    if (!other || other.lastSeen < (memory as Memory).lastSeen) { latest.set(key, memory as Memory); }
+  }
+  const memories = Array.from(latest);
+  const events: [string, LogEvent][] = [];
+  for (const [id, event] of Object.entries(backup.events || {})) {
+    const reason = id.startsWith('quiz/') ? validateEvent(event) : 'invalid id';
+    if (reason) {
+      report.rejected.push({id, reason});
+    } else {
+      events.push([id, {...event as LogEvent, modelKey: upgrade((event as LogEvent).modelKey)}]);
+    }
+  }
+
+  const docs: {}[] = [];
+
+  const existingMemories = await db.allDocs({keys: memories.map(([id]) => id), include_docs: true});
+  memories.forEach(([_id, memory], i) => {
+    const row = existingMemories.rows[i];
+    const old = 'doc' in row && row.doc ? row.doc as unknown as Memory & PouchDB.Core.IdMeta & PouchDB.Core.GetMeta
+                                        : undefined;
+    if (!old) {
+      // not found or deleted (i.e., unlearned)
+      docs.push({...memory, _id});
+      report.memoriesAdded++;
+    } else if (!old.lastSeen || memory.lastSeen > old.lastSeen) {
+      docs.push({...old, ...memory});
+      report.memoriesUpdated++;
+    } else {
+      report.memoriesKept++;
+    }
+  });
+
+  const existingEvents = await db.allDocs({startkey: 'quiz/', endkey: 'quiz/\ufff0', include_docs: true});
+  const eventSignature = (e: LogEvent) =>
+      [e.modelKey, e.date, e.eventType === 'rescale' ? e.eventType : e.active].join('\n');
+  const seenIds = new Set(existingEvents.rows.map(row => row.id));
+  const seen = new Set(existingEvents.rows.map(row => eventSignature(row.doc as unknown as LogEvent)));
+  for (const [_id, event] of events) {
+    if (seenIds.has(_id) || seen.has(eventSignature(event))) {
+      report.eventsSkipped++;
+      continue;
+    }
+    seenIds.add(_id);
+    seen.add(eventSignature(event));
+    docs.push({...event, _id});
+    report.eventsAdded++;
+  }
+
+  const results = await db.bulkDocs(docs);
+  for (const res of results) {
+    if ('error' in res && res.error) {
+      report.rejected.push({id: res.id || '', reason: res.message || res.name || 'write failed'});
+    }
+  }
+  return report;
+}
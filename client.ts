@@ -1,433 +1,521 @@
 import {argmin, flatmap, hasKanji, kata2hira} from 'curtiz-utils';
 import * as ebisu from 'ebisu-js';
 import PouchDB from 'pouchdb';
-import {createContext, createElement, Dispatch, Fragment, useContext, useEffect, useReducer, useState} from 'react';
+import {
+  ChangeEvent,
+  createContext,
+  createElement,
+  Dispatch,
+  FormEvent,
+  Fragment,
+  SyntheticEvent,
+  useContext,
+  useEffect,
+  useReducer,
+  useRef,
+  useState
+} from 'react';
 import ReactDOM from 'react-dom';
-import {connect, Provider} from 'react-redux';
+import {connect, Provider, shallowEqual, useSelector} from 'react-redux';
 import {AnyAction, createStore, Store} from "redux";
 
+import {eventsToCsv, exportBackup, importBackup, ImportReport} from './backup';
+import {gradeAnswers, Grading, withoutPunctuation} from './grading';
+import {
+  formatLegacyModelKey,
+  getKeySchemeVersion,
+  KEY_SCHEME_VERSION,
+  modelKeyGroup,
+  renameMemories,
+  setKeySchemeVersion,
+  upgradeLegacyModelKey
+} from './keys';
+import {describeElement, lint, Problem} from './lint';
+import {EbisuModel, FactSource, LogEvent, Memory, QuizEvent, RescaleEvent, rescaleModel} from './memory';
+import {
+  addKeys,
+  addStandaloneKeys,
+  assertNever,
+  ConjugatedFact,
+  Fact,
+  FactType,
+  findCloze,
+  Furigana,
+  furiganaToHiragana,
+  furiganaToRuby,
+  HtmlElement,
+  HtmlNode,
+  Keyed,
+  Keyed1,
+  parseQuizzable,
+  ParticleFact,
+  QuizzableOptions,
+  SentenceFact,
+  Subfact,
+  VocabFact
+} from './parser';
+import {romajiToHiragana, romajiToHiraganas} from './romaji';
+import {Candidate, SchedulerName, SCHEDULERS} from './scheduler';
+import {
+  DEFAULT_SESSION_SETTINGS,
+  loadSessionSettings,
+  QUIZ_KINDS,
+  QuizKind,
+  saveSessionSettings,
+  Session,
+  sessionIncludes,
+  sessionOver,
+  SessionResult,
+  SessionSettings,
+  summarizeSession
+} from './session';
+import {loadSyncSettings, saveSyncSettings, startSync, SyncSettings, SyncStatus} from './sync';
+
 PouchDB.plugin(require('pouchdb-upsert'));
 const ce = createElement;
 
-interface Ruby {
-  ruby: string;
-  rt?: string;
-}
-type Furigana = string|Ruby;
-
-enum FactType {
-  Vocab = 'vocab',
-  Conjugated = 'conjugated',
-  Particle = 'particle',
-  Sentence = 'sentence',
-}
-
-interface BaseFact {
-  factType: FactType;
-}
-interface VocabFact extends BaseFact {
-  kanjiKana: string[];
-  definition: string;
-  factType: FactType.Vocab;
-}
-
-interface ConjugatedFact extends BaseFact {
-  expected: Furigana[];
-  hints: Furigana[];
-  factType: FactType.Conjugated;
-}
-
-interface ParticleFact extends BaseFact {
-  left: string;
-  cloze: string;
-  right: string;
-  factType: FactType.Particle;
-}
-
-interface SentenceFact extends BaseFact {
-  furigana: Furigana[];
-  subfacts: (VocabFact|ParticleFact|ConjugatedFact)[];
-  translation: {[lang: string]: string};
-  factType: FactType.Sentence;
-}
-
-type Fact = SentenceFact|ParticleFact|ConjugatedFact|VocabFact;
-
-function furiganaToRuby(v: Furigana[]): string {
-  return v.map(o => typeof o === 'string' ? o : o.ruby).join('').trim();
-}
-function furiganaToRt(v: Furigana[]): string { return v.map(o => typeof o === 'string' ? o : o.rt).join('').trim(); }
-function furiganaToHiragana(v: Furigana[]): string { return kata2hira(furiganaToRt(v)); }
-
-function rubyNodeToFurigana(node: ChildNode): Furigana {
-  if (node.nodeName === 'RUBY') {
-    let rt = '';
-    let ruby = '';
-    for (const sub of node.childNodes) {
-      if (sub.nodeName === '#text') {
-        ruby += sub.textContent;  // textContent is technically nullable
-      } else if (sub.nodeName === 'RT') {
-        rt += sub.textContent;
-      }
-    }
-    return rt ? {ruby, rt} : ruby;
-    // if this was just `<ruby>bla</ruby>` with no `rt` tag, treat this as plain
-    // text. We shouldn't force everyone upstream to assume `Ruby` objects might
-    // be missing `rt`.
+/**
+Every way to write `v` with each ruby segment as either its kanji or its reading: 良くする, よくする, etc. The kanji form
+comes first and the all-kana one last.
+*/
+function furiganaSpellings(v: Furigana[]): string[] {
+  let ret = [''];
+  for (const o of v) {
+    const options = typeof o === 'string' ? [o] : o.rt && o.rt !== o.ruby ? [o.ruby, o.rt] : [o.ruby];
+    ret = ret.reduce((acc, prefix) => acc.concat(options.map(s => prefix + s)), [] as string[]);
   }
-  throw new Error('Not a RUBY node');
+  return ret.map(s => s.trim());
 }
 
-function nodesToFurigana(nodes: ChildNode[]|NodeListOf<ChildNode>): Furigana[] {
-  const ret: Furigana[] = [];
-  for (const node of nodes) {
-    if (node.nodeName === '#text') {
-      ret.push(node.textContent || 'TypeScript pacification');
-    } else if (node.nodeName === 'RUBY') {
-      ret.push(rubyNodeToFurigana(node));
-    }
-  }
-  return ret;
+function FuriganaComponent(props: {furiganas: Furigana[]}) {
+  return ce(Fragment, null,
+            ...props.furiganas.map(o => typeof o === 'string' ? o : ce('ruby', null, o.ruby, ce('rt', null, o.rt))))
 }
 
-// 遣る・行る「やる」：① to do/to undertake/to perform/to play (a game)/to study
-function textToVocab(s: string): VocabFact {
-  const split = s.split('：');
-  if (split.length !== 2) { throw new Error('unable to split vocab: ' + s); }
-  const kanjiKana = split[0].replace('」', '').replace('「', '・').split('・').filter(s => !!s);  // leading ・
-  const definition = split[1];
-  return {kanjiKana, definition, factType: FactType.Vocab};
-}
-
-function textToConjugated(elt: Element): ConjugatedFact {
-  const expected: Furigana[] = [];
-  const hints: Furigana[] = [];
-
-  const BREAK = '：';
-  let splitFound = false;
-  const contents = nodesToFurigana(elt.childNodes);
-  for (const text of contents) {
-    if (typeof text === 'string') {
-      if (splitFound) {
-        hints.push(text);
-      } else if (text.includes(BREAK)) {
-        // split just now found
-        splitFound = true;
-        const [pre, post] = text.split(BREAK);
-        if (pre) { expected.push(pre); }
-        if (post) { hints.push(post); }
-      } else {
-        // split not found
-        expected.push(text);
-      }
+/**
+Splits furigana into what's before and after the characters `[start, end)` of `furiganaToPlain(furigana)`. A `Ruby`
+that straddles either edge keeps the part outside the blank as plain text, since there's no telling which part of the
+reading goes with it.
+*/
+function splitFurigana(furigana: Furigana[], start: number, end: number): {before: Furigana[], after: Furigana[]} {
+  const before: Furigana[] = [];
+  const after: Furigana[] = [];
+  let offset = 0;
+  for (const f of furigana) {
+    const text = typeof f === 'string' ? f : f.ruby;
+    const [left, right] = [offset, offset + text.length];
+    offset = right;
+    if (right <= start) {
+      before.push(f);
+    } else if (left >= end) {
+      after.push(f);
     } else {
-      // text is furigana
-      (splitFound ? hints : expected).push(text);
+      if (left < start) { before.push(text.slice(0, start - left)); }
+      if (right > end) { after.push(text.slice(end - left)); }
     }
   }
-  return {expected, hints, factType: FactType.Conjugated};
+  return {before, after};
 }
 
-function textToParticle(s: string): ParticleFact {
-  const split = s.split('/');
-  if (split.length === 1) {
-    return {left: '', cloze: split[0], right: '', factType: FactType.Particle};
-  } else if (split.length === 3) {
-    return {left: split[0], cloze: split[1], right: split[2], factType: FactType.Particle};
-  }
-  throw new Error('unable to split: ' + s);
+// A sentence with `[start, end)` blanked out, keeping readings everywhere else
+function ClozeComponent(props: {furigana: Furigana[], start: number, end: number}) {
+  const {before, after} = splitFurigana(props.furigana, props.start, props.end);
+  return ce(Fragment, null, ce(FuriganaComponent, {furiganas: before}), '■■',
+            ce(FuriganaComponent, {furiganas: after}));
 }
 
-function elementToFact(elt: Element) {
-  if (elt.classList.contains('vocab')) {
-    return textToVocab(elt.textContent || '')
-  } else if (elt.classList.contains('conjugated')) {
-    return textToConjugated(elt);
-  } else if (elt.classList.contains('particle')) {
-    return textToParticle(elt.textContent || '');
-  }
-  throw new Error('unknown quizzable ' + elt);
+/**
+Whether each of `keys` is learned, per the memories `setup` loads into the store and keeps up to date (undefined until
+they're loaded). Re-renders only when one of these changes, not when any memory does.
+*/
+function useLearned(keys: string[]): (boolean|undefined)[] {
+  return useSelector(
+      (state: PageState) => keys.map(key => key in state.memories ? !!state.memories[key].ebisu : undefined),
+      shallowEqual);
 }
 
-function FuriganaComponent(props: {furiganas: Furigana[]}) {
-  return ce(Fragment, null,
-            ...props.furiganas.map(o => typeof o === 'string' ? o : ce('ruby', null, o.ruby, ce('rt', null, o.rt))))
+// "Meaning learn!"/"Reading unlearn" buttons (and histories) for each memory of a sentence or vocab
+function learnButtons(keys: string[], learned: (boolean|undefined)[]) {
+  return keys.map((key, i) => {
+    const thisLearned = learned[i] ? 'unlearn' : 'learn!';
+    const display = key.endsWith('meaning') ? 'Meaning' : key.endsWith('production') ? 'Production' : 'Reading';
+    const button = ce('button', {onClick: e => learnUnlearn(key, !learned[i])}, `${display} ${thisLearned}`);
+    return ce(Fragment, null, button, learned[i] ? ce(History, {modelKey: key}) : '');
+  });
 }
 
 function VocabComponent(props: {fact: Keyed<VocabFact>}) {
-  const [learned, setLearned] = useState(undefined as undefined | Record<string, boolean>);
   const dbKeys = props.fact.keys;
-
-  useEffect(() => {
-    if (!learned) {
-      async function init(dbKeys: string[]) {
-        const learned: Record<string, boolean> = {};
-        for (const key of dbKeys) {
-          try {
-            await db.get(key);
-            learned[key] = true;
-          } catch { learned[key] = false; }
-        }
-        setLearned(learned);
-      }
-      init(dbKeys);
-    }
-
-    const changes = db.changes({since: 'now', live: true, doc_ids: dbKeys}).on('change', change => {
-      if (!learned) { return; }  // if setLearned hasn't yet updated the state, just bail
-      setLearned({...learned, [change.id]: !change.deleted});
-    });
-    return () => changes.cancel();  // to cancel the listener when component unmounts.
-  });
-
-  if (typeof learned === 'undefined') { return ce(Fragment, null, ''); }
-  const buttons = dbKeys.map(key => {
-    const thisLearned = learned[key] ? 'unlearn' : 'learn!';
-    const display = key.endsWith('meaning') ? 'Meaning' : 'Reading';
-    return ce('button', {onClick: e => learnUnlearn(key, !(learned[key]))}, `${display} ${thisLearned}`);
-  });
-
-  return ce(Fragment, null, props.fact.kanjiKana.join('・'), '：', props.fact.definition, ...buttons);
+  const learned = useLearned(dbKeys);
+  if (learned.some(o => typeof o === 'undefined')) { return ce(Fragment, null, ''); }
+  return ce(Fragment, null, props.fact.kanjiKana.join('・'), '：', props.fact.definition,
+            ...learnButtons(dbKeys, learned));
 }
 
 function ParticleComponent(props: {fact: Keyed<ParticleFact>}) {
   const dbKey = props.fact.keys[0];
-  const [learned, setLearned] = useState(undefined as undefined | boolean);
-
-  useEffect(() => {
-    if (typeof learned === 'undefined') {
-      async function init(dbKey: string) {
-        try {
-          await db.get(dbKey);
-          setLearned(true);
-        } catch { setLearned(false); }
-      }
-      init(dbKey);
-      return;
-    } else {
-      const changes = db.changes({since: 'now', live: true, doc_ids: [dbKey]}).on('change', change => {
-        if (typeof learned === 'undefined') { return; }  // if setLearned hasn't yet updated the state, just bail
-        setLearned(!change.deleted);
-        // TODO this might not be necessary, i.e., if just a key changed
-      });
-      return () => changes.cancel();  // to cancel the listener when component unmounts.
-    }
-  })
+  const [learned] = useLearned([dbKey]);
+
+  const {left, right, cloze, occurrence} = props.fact;
+  const nth = occurrence ? ` (#${occurrence})` : '';
+  const text = `${left ? '…' + left : ''}${cloze}${right ? right + '…' : ''}${nth}`;
+  if (typeof learned === 'undefined') { return ce(Fragment, null, text) }
+  const button = ce('button', {onClick: e => learnUnlearn(dbKey, !learned)}, learned ? 'Unlearn' : 'Learn!');
+  return ce(Fragment, null, text, button, learned ? ce(History, {modelKey: dbKey}) : '');
+}
 
-  const {left, right, cloze} = props.fact;
+function ConjugatedComponent(props: {fact: Keyed<ConjugatedFact>}) {
+  const dbKey = props.fact.keys[0];
+  const [learned] = useLearned([dbKey]);
+  const {occurrence} = props.fact;
+  const nth = occurrence ? ` (#${occurrence})` : '';
   if (typeof learned === 'undefined') {
-    return ce(Fragment, null, `${left ? '…' + left : ''}${cloze}${right ? right + '…' : ''}`)
+    return ce(Fragment, null, props.fact.expected, '：', ce(FuriganaComponent, {furiganas: props.fact.hints}), nth);
   }
-  const buttonText = learned ? 'Unlearn' : 'Learn!';
-  const button = ce('button', {
+  const button = ce('button', {onClick: e => learnUnlearn(dbKey, !learned)}, learned ? 'Unlearn' : 'Learn!');
+  return ce(Fragment, null, props.fact.expected, '：', ce(FuriganaComponent, {furiganas: props.fact.hints}), nth,
+            button, learned ? ce(History, {modelKey: dbKey}) : '');
+}
+
+function formatHours(hours: number): string {
+  if (hours < 1) { return `${(hours * 60).toFixed(0)} min`; }
+  if (hours < 24) { return `${hours.toFixed(1)} h`; }
+  return `${(hours / 24).toFixed(1)} days`;
+}
+function halflife(model: EbisuModel): number { return ebisu.modelToPercentileDecay(model, 0.5); }
+
+async function getQuizEvents(modelKey: string): Promise<LogEvent[]> {
+  const res = await db.allDocs({startkey: 'quiz/', endkey: 'quiz/\ufff0', include_docs: true});
+  return res.rows.map(row => row.doc as unknown as LogEvent).filter(e => e.modelKey === modelKey);
+}
+
+// Buttons to make a memory's half-life longer ("too easy") or shorter ("too hard"), or to set it outright
+function Rescale(props: {modelKey: string, onRescale?: () => void}) {
+  const [days, setDays] = useState('');
+  const rescale = async (newHalflife: (halflife: number) => number) => {
+    await rescaleHalflife(props.modelKey, newHalflife);
+    if (props.onRescale) { props.onRescale(); }
+  };
+  const scales = [0.5, 2, 5].map(scale => ce('button', {onClick: e => rescale(h => h * scale)}, `×${scale}`));
+  const input = ce('input', {type: 'number', min: 0, step: 'any', value: days, onChange: e => setDays(e.target.value)});
+  const set = ce('button', {
     onClick: e => {
-      if (typeof learned === 'undefined') { return; };
-      learnUnlearn(dbKey, !learned);
-    },
+      if (parseFloat(days) > 0) { rescale(() => parseFloat(days) * 24); }
+    }
   },
-                    buttonText);
-  return ce(Fragment, null, `${left ? '…' + left : ''}${cloze}${right ? right + '…' : ''}`, button);
+                 'Set');
+  return ce('span', null, ' Half-life: ', ...scales, ' or ', input, ' days ', set);
 }
 
-function ConjugatedComponent(props: {fact: Keyed<ConjugatedFact>}) {
-  const dbKey = props.fact.keys[0];
-  const [learned, setLearned] = useState(undefined as undefined | boolean);
-  useEffect(() => {
-    // TODO: DRY: above with particles
-    if (typeof learned === 'undefined') {
-      async function init(dbKey: string) {
-        try {
-          await db.get(dbKey);
-          setLearned(true);
-        } catch { setLearned(false); }
-      }
-      init(dbKey);
-      return () => {};
+// Expandable list of every review of a memory, read back from the `quiz/` docs `reviewSentence` logs
+function History(props: {modelKey: string}) {
+  const [events, setEvents] = useState(undefined as undefined | LogEvent[]);
+  const [memory, setMemory] = useState(undefined as undefined | Memory);
+  const load = async () => {
+    try {
+      setMemory(await db.get(props.modelKey) as unknown as Memory);
+    } catch { setMemory(undefined); }
+    setEvents(await getQuizEvents(props.modelKey));
+  };
+
+  let body;
+  if (!events) {
+    body = ce('p', null, 'Loading…');
+  } else {
+    let current = 'Not learned';
+    if (memory) {
+      const elapsedHours = (Date.now() - new Date(memory.lastSeen).valueOf()) / 3600e3;
+      const recall = ebisu.predictRecall(memory.ebisu, elapsedHours, true);
+      current = `Recall now: ${(100 * recall).toFixed(0)}%, half-life ${formatHours(halflife(memory.ebisu))}`;
     }
-    const changes = db.changes({since: 'now', live: true, doc_ids: [dbKey]}).on('change', change => {
-      if (typeof learned === 'undefined') { return; }
-      setLearned(!change.deleted);
+    const rows = events.map(e => {
+      if (e.eventType === 'rescale') {
+        return ce('li', null, `${new Date(e.date).toLocaleString()}: half-life rescaled ×${e.scale.toPrecision(3)}, ${
+                                  formatHours(halflife(e.oldEbisu))} → ${formatHours(halflife(e.newEbisu))}`);
+      }
+      const result = e.active ? (e.result ? 'pass' : 'FAIL') : 'passive (related fact reviewed)';
+      const {response: converted, rawResponse: raw} = e.extra;
+      const response = converted ? ` typed 「${raw && raw !== converted ? `${raw}」→「` : ''}${converted}」` : '';
+      const nearMiss = e.extra.nearMiss ? ` after a near miss (${e.extra.nearMiss})` : '';
+      const overridden = e.extra.overridden ? ' (counted as right by hand)' : '';
+      const change =
+          e.active ? `, half-life ${formatHours(halflife(e.oldEbisu))} → ${formatHours(halflife(e.newEbisu))}` : '';
+      const text = `${new Date(e.date).toLocaleString()}: ${result}${response}${nearMiss}${overridden}${change}`;
+      return ce('li', null, e.undone ? ce(Fragment, null, ce('s', null, text), ' (undone)') : text);
     });
-    return () => changes.cancel();
-  });
-  if (typeof learned === 'undefined') {
-    return ce(Fragment, null, props.fact.expected, '：', ce(FuriganaComponent, {furiganas: props.fact.hints}));
+    const rescale = memory ? ce(Rescale, {modelKey: props.modelKey, onRescale: load}) : '';
+    body = ce(Fragment, null, ce('p', null, current, rescale),
+              rows.length ? ce('ol', null, ...rows) : ce('p', null, 'No reviews'));
   }
-  const button = ce('button', {
-    onClick: e => {
-      if (typeof learned === 'undefined') { return; };
-      learnUnlearn(dbKey, !learned);
-    },
-  },
-                    learned ? 'Unlearn' : 'Learn!');
-  return ce(Fragment, null, props.fact.expected, '：', ce(FuriganaComponent, {furiganas: props.fact.hints}), button);
+  const onToggle = (e: SyntheticEvent<HTMLDetailsElement>) => e.currentTarget.open && load();
+  return ce('details', {onToggle}, ce('summary', null, 'History'), body);
+}
+
+function SubfactComponent(props: {fact: Keyed1<Subfact>}) {
+  const {fact} = props;
+  return fact.factType === FactType.Vocab
+             ? ce(VocabComponent, {fact})
+             : fact.factType === FactType.Particle ? ce(ParticleComponent, {fact}) : ce(ConjugatedComponent, {fact});
 }
 
 function Sentence(props: {fact: Keyed<SentenceFact>}) {
-  const [learned, setLearned] = useState(undefined as undefined | Record<string, boolean>);
   const dbKeys = props.fact.keys;
+  const learned = useLearned(dbKeys);
+  if (learned.some(o => typeof o === 'undefined')) { return ce(Fragment, null, ''); }
+  const buttons = learnButtons(dbKeys, learned);
 
-  useEffect(() => {
-    if (!learned) {
-      async function init(dbKeys: string[]) {
-        const learned: Record<string, boolean> = {};
-        for (const key of dbKeys) {
-          try {
-            await db.get(key);
-            learned[key] = true;
-          } catch { learned[key] = false; }
-        }
-        setLearned(learned);
-      }
-      init(dbKeys);
-    }
-
-    const changes = db.changes({since: 'now', live: true, doc_ids: dbKeys}).on('change', change => {
-      if (!learned) { return; }  // if setLearned hasn't yet updated the state, just bail
-      setLearned({...learned, [change.id]: !change.deleted});
-      // TODO this might not be necessary, i.e., if just a key changed
-    });
-    return () => changes.cancel();  // to cancel the listener when component unmounts.
-    // `return changes.cancel.bind(changes);` should work too but triggers "MaxListenersExceededWarning"?
-    // Can't just `return changes.cancel` either because `this` error.
-  });
-
-  if (typeof learned === 'undefined') { return ce(Fragment, null, ''); }
-  const buttons = dbKeys.map(key => {
-    const thisLearned = learned[key] ? 'unlearn' : 'learn!';
-    const display = key.endsWith('meaning') ? 'Meaning' : 'Reading';
-    return ce('button', {onClick: e => learnUnlearn(key, !(learned[key]))}, `${display} ${thisLearned}`);
-  });
+  const allKeys = dbKeys.concat(...props.fact.subfacts.map(o => o.keys));
+  const learnAll = ce('button', {onClick: e => learnUnlearnMany(allKeys, true)}, 'Learn all');
+  const unlearnAll = ce('button', {onClick: e => unlearnMany(allKeys)}, 'Unlearn all');
+  const bulk = ce('span', null, ' Everything in this sentence: ', learnAll, unlearnAll);
 
   return ce(
       Fragment,
       null,
       ce('summary', {id: props.fact.keys[0]}, ce(FuriganaComponent, {furiganas: props.fact.furigana})),
       ...buttons,
+      bulk,
       ce(
           'ul',
           null,
-          ...props.fact.subfacts.map(fact =>
-                                         ce('li', null,
-                                            fact.factType === FactType.Vocab ? ce(VocabComponent, {fact})
-                                                                             : fact.factType === FactType.Particle
-                                                                                   ? ce(ParticleComponent, {fact})
-                                                                                   : ce(ConjugatedComponent, {fact}))),
+          // ids for links to vocab, which is keyed apart from its sentence: the same vocab in several sentences links
+          // to the first
+          ...props.fact.subfacts.map(fact => ce('li', {id: fact.keys[0]}, ce(SubfactComponent, {fact}))),
           ),
   );
 }
 
-type EbisuModel = ReturnType<typeof ebisu.defaultModel>;
-interface Memory {
-  ebisu: EbisuModel;
-  lastSeen: string;
-  version: '1';
-}
-function learnUnlearn(key: string, learn: boolean, date?: Date) {
-  return db.upsert(key, old => {
-    if (!learn) { return {...old, _deleted: true}; }
-    const halflife = 0.5;  // hours
-    const ab = 3;          // unitless
-    // the initial prior on recall probability will be Beta(ab, ab) in `halflife` time units. Instead of tweaking the
-    // halflife when you first learn a fact, let's let users tweak it after a review.
-    const model:
-        Memory = {ebisu: ebisu.defaultModel(halflife, ab), lastSeen: (date || new Date()).toISOString(), version: '1'};
-    return {...old, ...model};
-  });
+// A `details.quizzable` without a sentence, e.g., a glossary: each fact stands alone
+function Glossary(props: {facts: Keyed1<Subfact>[], title: string}) {
+  return ce(Fragment, null, ce('summary', null, props.title),
+            ce('ul', null, ...props.facts.map(fact => ce('li', {id: fact.keys[0]}, ce(SubfactComponent, {fact})))));
+}
+
+function LintWarnings({problems}: {problems: Problem[]}) {
+  const fatal = problems.some(p => p.fatal);
+  return ce('div', {className: 'quizzable-problems'},
+            fatal ? "Problems with the quizzable below (it can't be quizzed until they're fixed):"
+                  : 'Problems with the quizzable below:',
+            ce('ul', null,
+               ...problems.map(p => ce('li', null, ce('code', null, describeElement(p.element)), ' ', p.message))));
+}
+
+interface LearnOptions {
+  date?: Date;        // when newly-learned facts were last seen: backdate material you already know
+  halflife?: number;  // hours
+}
+function newMemory(key: string, options: LearnOptions): Memory {
+  const halflife = options.halflife || 0.5;  // hours
+  const ab = 3;                              // unitless
+  // the initial prior on recall probability will be Beta(ab, ab) in `halflife` time units. Instead of tweaking the
+  // halflife when you first learn a fact, let's let users tweak it after a review (or set it for material they know).
+  const model: Memory = {
+    ebisu: ebisu.defaultModel(halflife, ab),
+    lastSeen: (options.date || new Date()).toISOString(),
+    version: '1',
+    reviews: 0
+  };
+  // save the fact too so it can be reviewed from other pages
+  const source = factSource(key);
+  return source ? {...model, source} : model;
+}
+
+// Options default to those picked in `BulkLearn`, which apply to every learn button
+function learnUnlearn(key: string, learn: boolean, options = pageStore.getState().learnOptions) {
+  return db.upsert(key, old => learn ? {...old, ...newMemory(key, options)} : {...old, _deleted: true});
+}
+/**
+Learns (or unlearns) many facts in one write, leaving alone those already learned (or not). Resolves to how many were
+changed.
+*/
+async function learnUnlearnMany(keys: string[], learn: boolean, options = pageStore.getState().learnOptions) {
+  const res = await db.allDocs({keys});
+  const docs: {}[] = [];
+  for (const row of res.rows) {
+    // missing docs have no `value`, deleted ones (unlearned facts) do
+    const value = (row as {value?: {rev: string, deleted?: boolean}}).value;
+    if (learn && (!value || value.deleted)) {
+      docs.push({...newMemory(row.key, options), _id: row.key, ...(value ? {_rev: value.rev} : {})});
+    } else if (!learn && value && !value.deleted) {
+      docs.push({_id: row.key, _rev: value.rev, _deleted: true});
+    }
+  }
+  if (docs.length) { await db.bulkDocs(docs); }
+  return docs.length;
+}
+function plural(n: number, noun: string) { return `${n} ${noun}${n === 1 ? '' : 's'}`; }
+// Unlearning throws away memories (though not their history), so check first
+async function unlearnMany(keys: string[]): Promise<number> {
+  const {memories} = pageStore.getState();
+  const count = keys.filter(key => memories[key] && memories[key].ebisu).length;
+  const ok = count > 0 && window.confirm(`Unlearn ${plural(count, 'fact')}? Their memories will be deleted.`);
+  return ok ? learnUnlearnMany(keys, false) : 0;
+}
+
+function pageUrl() { return window.location.href.split('#')[0]; }
+// The fact behind a memory on this page, along with its sentence (if any) and how to find it here again
+function factSource(key: string): FactSource<Keyed<Fact>>|undefined {
+  const {facts} = pageStore.getState();
+  const fact = facts[key];
+  if (!fact) { return undefined; }
+  const parent = parentSentence(key, facts);
+  return {fact, parent, url: pageUrl(), anchor: (parent || fact).keys[0]};
+}
+function parentSentence(key: string, facts: PageState['facts']): Keyed<SentenceFact>|undefined {
+  const parentKey = modelKeyGroup(key) + 'meaning';
+  const parent = facts[parentKey];
+  return parent && parent.factType === FactType.Sentence && parentKey !== key ? parent : undefined;
+}
+// Link to a fact: on this page, or on the page it was learned on if `url` is given
+function factHref(anchor: string, url?: string) { return `${url || ''}#${anchor}`; }
+
+// The parser's view of a DOM element
+function domToTree(elt: Element): HtmlElement {
+  const children: HtmlNode[] = [];
+  for (const node of elt.childNodes) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      children.push({type: 'text', text: node.textContent || ''});
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      children.push(domToTree(node as Element));
+    }
+  }
+  const attribs: Record<string, string> = {};
+  for (const attr of elt.attributes) { attribs[attr.name] = attr.value; }
+  return {type: 'element', name: elt.nodeName.toLowerCase(), attribs, children};
 }
 
-export function setup() {
+/**
+Renders every `<details class="quizzable">` on the page and the quiz app. `options.production` opts every sentence into
+production quizzes (typing the sentence given its translation), not just those in `<details class="quizzable
+production">`: pages opt in by calling `client.setup({production: true})` in their script. (The authoring format's
+`@production` marks every sentence's `<details>` instead, so it works with any script.)
+*/
+export function setup(options: QuizzableOptions = {}) {
   const details = document.querySelectorAll('details.quizzable');
   const allKeys: string[] = [];
-  for (const detail of details) {
-    const sentence = detail.querySelector('.quizzable.sentence');
-    if (!sentence) {
-      continue;
-      // TODO: vocab-only
-      const vocabNode = detail.querySelector('.quizzable.vocab');
-      if (!vocabNode) { continue; }
-      // const fact = elementToFact(vocabNode);
-    }
-    const furigana = nodesToFurigana(sentence.childNodes);
-    const subfacts = Array.from(detail.querySelectorAll('.quizzable:not(.sentence)'), elementToFact);
-    const translation: {[s: string]: string} = {};
-    for (const elt of detail.querySelectorAll('.translation')) {
-      const lang = Array.from(elt.classList).find(s => s !== 'translation') || 'pacification';
-      translation[lang] = elt.textContent || 'pacification 2';
+  const legacyKeys: Map<string, string> = new Map();  // legacy key -> current key, for this page's facts
+  const addLegacyKeys = (current: string[], legacy: string[]) =>
+      legacy.forEach((key, i) => legacyKeys.set(key, current[i]));
+  const trees = Array.from(details, domToTree);
+  const problems = lint(trees);
+  for (const [i, detail] of details.entries()) {
+    const found = problems.filter(p => p.details === trees[i]);
+    if (found.length) {
+      found.forEach(p => console.warn(describeElement(p.element), p.message));
+      // before the `<details>`, not in it, so it shows even when it's closed
+      const warning = document.createElement('div');
+      (detail.parentNode as Node).insertBefore(warning, detail);
+      ReactDOM.render(ce(LintWarnings, {problems: found}), warning);
+      if (found.some(p => p.fatal)) { continue; }
     }
+    const quizzable = parseQuizzable(trees[i], options);
+    if (!quizzable) { continue; }
+    if (quizzable.type === 'glossary') {
+      const {facts, title} = quizzable;
+      facts.forEach(o => addLegacyKeys(o.keys, addStandaloneKeys(o, formatLegacyModelKey).keys));
+
+      const action: AddFactsAction = {type: ActionType.addFacts, facts};
+      pageStore.dispatch(action);
 
-    const fact: Keyed<SentenceFact> = addKeys({furigana, subfacts, translation, factType: FactType.Sentence});
+      ReactDOM.render(ce(Provider, {store: pageStore}, ce(Glossary, {facts, title})), detail);
+
+      allKeys.push(...flatmap(facts, o => o.keys));
+      continue;
+    }
+    const {fact} = quizzable;
+    const legacy = addKeys(fact, formatLegacyModelKey);
+    addLegacyKeys(fact.keys, legacy.keys);
+    fact.subfacts.forEach((o, i) => addLegacyKeys(o.keys, legacy.subfacts[i].keys));
 
     const action: AddFactsAction = {type: ActionType.addFacts, facts: [fact, ...fact.subfacts]};
     pageStore.dispatch(action)
 
-    ReactDOM.render(ce(Sentence, {fact}), detail);
+    ReactDOM.render(ce(Provider, {store: pageStore}, ce(Sentence, {fact})), detail);
 
     allKeys.push(...fact.keys.concat(flatmap(fact.subfacts, o => o.keys)));
   }
 
+  // load every memory, not just this page's, so reviews can cover facts learned on other pages
   async function init(dbKeys: string[]) {
+    await migrateKeys(legacyKeys);
     const memories: Record<string, Partial<Memory>> = {};
-    for (const key of dbKeys) {
-      try {
-        const model = await db.get(key) as Memory;
-        memories[key] = model;
-      } catch { memories[key] = {}; }
+    for (const key of dbKeys) { memories[key] = {}; }
+    const res = await db.allDocs({startkey: 'model/', endkey: 'model/\ufff0', include_docs: true});
+    for (const row of res.rows) {
+      if (row.doc) { memories[row.id] = row.doc as unknown as Memory; }
     }
     const action: UpdatingMemoryAction = {type: ActionType.updatingMemories, memories};
     pageStore.dispatch(action);
+
+    // facts learned before they were saved with their memories: save them now that we've seen them, all at once (any
+    // changed since they were loaded just conflict, and get saved next time)
+    const unsaved: {}[] = [];
+    for (const key of dbKeys) {
+      const source = memories[key].ebisu && !memories[key].source && factSource(key);
+      if (source) { unsaved.push({...memories[key], source}); }
+    }
+    if (unsaved.length) { await db.bulkDocs(unsaved); }
   }
   init(allKeys);
 
-  // TODO is it more efficient to use `doc_ids` or just filter?
-  db.changes({since: 'now', live: true, doc_ids: allKeys, include_docs: true}).on('change', change => {
+  db.changes({since: 'now', live: true, include_docs: true}).on('change', change => {
+    if (!change.id.startsWith('model/')) { return; }
     const memories = {[change.id]: change.deleted ? {} : change.doc as unknown as Memory};
     const action: UpdatingMemoryAction = {type: ActionType.updatingMemories, memories};
     pageStore.dispatch(action);
   });
 }
 
-/** Adds `keys` field to any fact */
-type Keyed1<T extends Fact> = T&{keys: string[]};
 /**
-Adds `keys` field to any fact AND to any subfield that happens to be an array of other facts
-
-A simplified way of doing the following would be:
-`type KeyedSentenceFact = Keyed1<SentenceFact>&{subfacts: Keyed1<SentenceFact['subfacts'][number]>[]};`
+Moves memories from legacy keys (unescaped text, vocab without JMdict ids) to current ones. Once per device, all of them
+are moved, using the facts saved with them or else guessing from the key alone. Then, every time a page loads, any of
+its facts still under legacy keys (learned before facts were saved with memories) are moved too.
 */
-type Keyed<T extends Fact> = {
-  [K in keyof T]: T[K] extends Array<Fact>? Keyed1<T[K][0]>[] : T[K]
-}&{keys: string[]};
-
-function addKeys(sentence: SentenceFact): Keyed<SentenceFact> {
-  const text = furiganaToRuby(sentence.furigana);
-  if (text.includes('/')) { throw new Error('unhandled: text containing separator'); }
-  const keys = [`model/${text}/meaning`];
-  if (hasKanji(text)) { keys.push(`model/${text}/reading`); }
-
-  const orig = sentence.subfacts;
-  const subfacts: Keyed1<(typeof orig)[number]>[] = orig.map(o => {
-    if (o.factType === FactType.Conjugated) {
-      return { ...o, keys: [`model/${text}/conjugated/${furiganaToRuby(o.expected)}`] }
-    } else if (o.factType === FactType.Particle) {
-      const particleKey = [o.left, o.cloze, o.right].join('_');
-      return { ...o, keys: [`model/${text}/particle/${particleKey}`] }
-    } else if (o.factType === FactType.Vocab) {
-      const k = o.kanjiKana.join(',');
-      const keys = [`model/${k}/meaning`];
-      if (hasKanji(k)) { keys.push(`model/${k}/reading`); }
-      return {...o, keys};
-    }
-    assertNever(o);
-  });
-  return {...sentence, subfacts, keys};
+async function migrateKeys(pageLegacyKeys: Map<string, string>) {
+  if (await getKeySchemeVersion(db) < KEY_SCHEME_VERSION) {
+    const res = await db.allDocs({startkey: 'model/', endkey: 'model/\ufff0', include_docs: true});
+    const renames: Map<string, string> = new Map();
+    const sources: Map<string, FactSource<Keyed<Fact>>> = new Map();
+    for (const row of res.rows) {
+      const {source} = row.doc as unknown as Memory;
+      const rekeyed = source ? rekeySource(row.id, source as FactSource<Keyed<Fact>>) : undefined;
+      const key = rekeyed ? rekeyed.key : upgradeLegacyModelKey(row.id);
+      const changed = rekeyed && JSON.stringify(rekeyed.source) !== JSON.stringify(source);
+      if (rekeyed && changed) { sources.set(key, rekeyed.source); }
+      if (key !== row.id || changed) { renames.set(row.id, key); }
+    }
+    await renameMemories(db, renames, (key, memory) => ({...memory, source: sources.get(key) || memory.source}));
+    await setKeySchemeVersion(db);
+  }
+  await renameMemories(db, new Map(Array.from(pageLegacyKeys).filter(([legacy, key]) => legacy !== key)));
+}
+/**
+Recomputes the keys of a fact saved with its memory (whose key is `key`), returning the memory's current key and the
+updated fact, or undefined if `key` isn't one of the fact's.
+*/
+function rekeySource(key: string, source: FactSource<Keyed<Fact>>) {
+  const {fact, parent} = source;
+  const sentence = parent && parent.factType === FactType.Sentence ? parent : undefined;
+  const newParent = sentence ? addKeys(sentence) : undefined;
+  let newFact: Keyed<Fact>|undefined;
+  if (sentence && newParent) {
+    const i = sentence.subfacts.findIndex(o => o.keys.includes(key));
+    newFact = i >= 0 ? newParent.subfacts[i] : sentence.keys.includes(key) ? newParent : undefined;
+  } else {
+    newFact = fact.factType === FactType.Sentence ? addKeys(fact) : addStandaloneKeys(fact);
+  }
+  const i = fact.keys.indexOf(key);
+  if (!newFact || i < 0 || !newFact.keys[i]) { return undefined; }
+  const anchor = (newParent || newFact).keys[0];
+  return {key: newFact.keys[i], source: {...source, fact: newFact, parent: newParent, anchor}};
 }
-function assertNever(x: never, note = 'Unexpected object: '): never { throw new Error(note + x); }
+
 
 // Redux step 1: actions
 enum ActionType {
   addFacts = 'addFacts',
   updatingMemories = 'updatingMemories',
+  setLearnOptions = 'setLearnOptions',
 }
 interface AddFactsAction {
   type: ActionType.addFacts;
@@ -437,28 +525,45 @@ interface UpdatingMemoryAction {
   type: ActionType.updatingMemories;
   memories: Record<string, Partial<Memory>>;
 }
-type Action = AddFactsAction|UpdatingMemoryAction;
+interface SetLearnOptionsAction {
+  type: ActionType.setLearnOptions;
+  options: LearnOptions;
+}
+type Action = AddFactsAction|UpdatingMemoryAction|SetLearnOptionsAction;
 // Redux step 2: state
 interface PageState {
   facts: {[k: string]: Keyed<Fact>};
+  // every sentence on the page each fact is in, by the fact's keys: `facts` has just one of them for shared vocab
+  sentencesByFact: Record<string, Keyed<SentenceFact>[]>;
   memories: Record<string, Partial<Memory>>;
   // partial because Pouchdb will store deleted docs as {} (exactly so that changes can be picked up)
+  learnOptions: LearnOptions;
 }
 const initialState: PageState = {
   facts: {},
-  memories: {}
+  sentencesByFact: {},
+  memories: {},
+  learnOptions: {},
 };
 // Redux step 3: reducer
 function neverOk(x: never) {};
 function reducer(state: PageState = initialState, action: Action): PageState {
   if (action.type === ActionType.addFacts) {
     const o: {[k: string]: Keyed<Fact>} = {};
+    const sentencesByFact = {...state.sentencesByFact};
     for (const f of action.facts) {
       for (const k of f.keys) { o[k] = f; }
+      if (f.factType !== FactType.Sentence) { continue; }
+      for (const k of ([] as string[]).concat(...f.subfacts.map(o => o.keys))) {
+        const sentences = sentencesByFact[k] || [];
+        if (!sentences.some(o => o.keys[0] === f.keys[0])) { sentencesByFact[k] = sentences.concat(f); }
+      }
     }
-    return {...state, facts: {...state.facts, ...o}};
+    return {...state, facts: {...state.facts, ...o}, sentencesByFact};
   } else if (action.type === ActionType.updatingMemories) {
     return {...state, memories: {...state.memories, ...action.memories}};
+  } else if (action.type === ActionType.setLearnOptions) {
+    return {...state, learnOptions: action.options};
   }
   // Redux actually sends in actions with types I don't know about so I need to return those but I do want to make sure
   // the above if/else ladder covers every action type I know about so this guarantees that
@@ -472,15 +577,19 @@ const pageStore: Store<PageState, AnyAction> =
 
 type Db = PouchDB.Database<{}>;
 const db: Db = new PouchDB('kaisei');
-db.setMaxListeners(50);
 
 enum QuizStateType {
   init = 'init',               // -> picking via action "startQuizSession"
   picking = 'picking',         // -> quizzing via action "startQuiz"
+                               // -> summary via action "doneQuizSession" (limit reached, or nothing's due)
   quizzing = 'quizzing',       // -> feedbacking via action "failQuiz"
                                // -> picking via action "startQuizSession" (either success or if quiz deleted)
-                               // -> init via action "doneQuizzing"
-  feedbacking = 'feedbacking'  // -> picking via action "startQuizSession"
+                               // -> summary via action "doneQuizSession"
+                               // -> quizzing via action "undoQuiz" (retaking the previous quiz)
+  feedbacking = 'feedbacking', // -> picking via action "startQuizSession"
+                               // -> summary via action "doneQuizSession"
+                               // -> quizzing via action "undoQuiz"
+  summary = 'summary',         // -> picking via action "startQuizSession" (a new session)
                                // -> init via action "doneQuizSession"
 }
 type QuizState_Init = {
@@ -488,83 +597,137 @@ type QuizState_Init = {
 };
 type QuizState_Picking = {
   state: QuizStateType.picking,
+  session: Session,
   previousQuiz?: PreviousQuiz,  // purely to pass it on to the "Quizzing" next state (to link previous quiz)
 };
 type QuizState_Quizzing = {
   state: QuizStateType.quizzing,
+  session: Session,
   action: QuizAction_StartQuiz,
   previousQuiz?: PreviousQuiz,
 };
 type QuizState_Feedbacking = {
   state: QuizStateType.feedbacking,
+  session: Session,
   action: QuizAction_FailQuiz
 };
-type QuizState = QuizState_Init|QuizState_Picking|QuizState_Quizzing|QuizState_Feedbacking;
+type QuizState_Summary = {
+  state: QuizStateType.summary,
+  session: Session,
+  ended: number,
+  reason?: string,
+};
+type QuizState = QuizState_Init|QuizState_Picking|QuizState_Quizzing|QuizState_Feedbacking|QuizState_Summary;
 
 enum QuizActionType {
   startQuizSession = 'startQuizSession',
   startQuiz = 'startQuiz',
   failQuiz = 'failQuiz',
   doneQuizSession = 'doneQuizSession',
+  undoQuiz = 'undoQuiz',
 }
 interface PreviousQuiz {
+  quizKey: string;
   linkId: string;
   linkText: string;
+  url?: string;  // the page `linkId` is on, if it isn't this one
   result: boolean;
+  accepted?: string;  // which of several acceptable answers was typed, if it was a typed quiz
+  undo?: {eventIds: string[], quiz: QuizAction_StartQuiz};  // to revert the review and retake the quiz
 }
 interface QuizAction_StartQuizSession {
   type: QuizActionType.startQuizSession;
   previousQuiz?: PreviousQuiz;
+  settings?: SessionSettings;  // to start a new session (from init or summary), as of `date`
+  date?: number;
 }
 interface QuizAction_StartQuiz {
   type: QuizActionType.startQuiz;
   fact: Keyed<Fact>;
   quizKey: string;
   parent?: Keyed<SentenceFact>;
+  examples?: Keyed<SentenceFact>[];  // for vocab: some of the sentences it's in, for context
+  url?: string;                      // the page the fact was learned on, if it isn't this one
 }
 interface QuizAction_FailQuiz {
   type: QuizActionType.failQuiz;
   fact: Keyed<Fact>;
   quizKey: string;
   parent?: Keyed<SentenceFact>;
+  examples?: Keyed<SentenceFact>[];
   response: string;
+  previousQuiz: PreviousQuiz;  // passed on to the next quiz just like a successful quiz's
 }
 interface QuizAction_DoneQuizzing {
   type: QuizActionType.doneQuizSession;
+  date: number;
+  reason?: string;  // why the session ended, if the learner didn't end it
+}
+interface QuizAction_UndoQuiz {
+  type: QuizActionType.undoQuiz;
+  quiz: QuizAction_StartQuiz;
 }
-type QuizAction = QuizAction_StartQuizSession|QuizAction_StartQuiz|QuizAction_FailQuiz|QuizAction_DoneQuizzing;
+type QuizAction =
+    QuizAction_StartQuizSession|QuizAction_StartQuiz|QuizAction_FailQuiz|QuizAction_DoneQuizzing|QuizAction_UndoQuiz;
 const quizInitialState: QuizState = {
   state: QuizStateType.init
 };
 
+function toResult({quizKey, linkId, linkText, url, result}: PreviousQuiz): SessionResult {
+  return {quizKey, linkId, linkText, url, result};
+}
+function newSession(action: QuizAction_StartQuizSession): Session {
+  return {settings: action.settings || DEFAULT_SESSION_SETTINGS, started: action.date || Date.now(), results: []};
+}
 function quizReducer(state: QuizState, action: QuizAction): QuizState {
-  if (state.state === QuizStateType.init) {
+  if (state.state === QuizStateType.init || state.state === QuizStateType.summary) {
     if (action.type === QuizActionType.startQuizSession) {
-      const newState: QuizState_Picking = {state: QuizStateType.picking};
+      const newState: QuizState_Picking = {state: QuizStateType.picking, session: newSession(action)};
+      return newState;
+    } else if (state.state === QuizStateType.summary && action.type === QuizActionType.doneQuizSession) {
+      const newState: QuizState_Init = {state: QuizStateType.init};
       return newState;
     }
+  } else if (action.type === QuizActionType.doneQuizSession) {
+    // from any state in the middle of a session
+    const {date: ended, reason} = action;
+    const newState: QuizState_Summary = {state: QuizStateType.summary, session: state.session, ended, reason};
+    return newState;
   } else if (state.state === QuizStateType.picking) {
     if (action.type === QuizActionType.startQuiz) {
-      const newState: QuizState_Quizzing = {state: QuizStateType.quizzing, action, previousQuiz: state.previousQuiz};
+      const {session, previousQuiz} = state;
+      const newState: QuizState_Quizzing = {state: QuizStateType.quizzing, session, action, previousQuiz};
       return newState;
     }
   } else if (state.state === QuizStateType.quizzing) {
+    const {session} = state;
     if (action.type === QuizActionType.failQuiz) {
-      const newState: QuizState_Feedbacking = {state: QuizStateType.feedbacking, action};
+      const results = session.results.concat(toResult(action.previousQuiz));
+      const newState: QuizState_Feedbacking =
+          {state: QuizStateType.feedbacking, session: {...session, results}, action};
       return newState;
     } else if (action.type === QuizActionType.startQuizSession) {
-      const newState: QuizState_Picking = {state: QuizStateType.picking, previousQuiz: action.previousQuiz};
+      const {previousQuiz} = action;
+      const results = previousQuiz ? session.results.concat(toResult(previousQuiz)) : session.results;
+      const newState: QuizState_Picking = {state: QuizStateType.picking, session: {...session, results}, previousQuiz};
       return newState;
-    } else if (action.type === QuizActionType.doneQuizSession) {
-      const newState: QuizState_Init = {state: QuizStateType.init};
+    } else if (action.type === QuizActionType.undoQuiz) {
+      const results = session.results.slice(0, -1);
+      const newState: QuizState_Quizzing =
+          {state: QuizStateType.quizzing, session: {...session, results}, action: action.quiz};
       return newState;
     }
   } else if (state.state === QuizStateType.feedbacking) {
+    const {session} = state;
     if (action.type === QuizActionType.startQuizSession) {
-      const newState: QuizState_Picking = {state: QuizStateType.picking};
+      // the failed quiz was counted when it failed
+      const {previousQuiz} = action;
+      const newState: QuizState_Picking = {state: QuizStateType.picking, session, previousQuiz};
       return newState;
-    } else if (action.type === QuizActionType.doneQuizSession) {
-      const newState: QuizState_Init = {state: QuizStateType.init};
+    } else if (action.type === QuizActionType.undoQuiz) {
+      const results = session.results.slice(0, -1);
+      const newState: QuizState_Quizzing =
+          {state: QuizStateType.quizzing, session: {...session, results}, action: action.quiz};
       return newState;
     }
   } else {
@@ -574,51 +737,142 @@ function quizReducer(state: QuizState, action: QuizAction): QuizState {
 }
 const QuizDispatch = createContext(null as unknown as Dispatch<QuizAction>);
 
+// Keyboard shortcuts, by `KeyboardEvent.key` (lowercase for letters)
+type Shortcuts = Record<string, () => void>;
+function isTyping(elt: HTMLElement) {
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(elt.tagName) || elt.isContentEditable;
+}
+/**
+Listens for `shortcuts` anywhere on the page, except while typing into the answer box (or any other field), where
+Escape just leaves the field, so Escape again does whatever it does. Holding a key down only counts once.
+*/
+function useShortcuts(shortcuts: Shortcuts) {
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.repeat || e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) { return; }
+      if (isTyping(target)) {
+        if (e.key === 'Escape') { target.blur(); }
+        return;
+      }
+      // a focused button already clicks itself on these
+      if (target.tagName === 'BUTTON' && (e.key === 'Enter' || e.key === ' ')) { return; }
+      const shortcut = shortcuts[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+      if (shortcut) {
+        e.preventDefault();
+        shortcut();
+      }
+    };
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  });
+}
+function KeyboardHelp() {
+  const rows = [
+    ['R', 'start reviewing (again, after a session)'],
+    ['Enter', 'submit a typed answer'],
+    ['Y or 1, N or 2', 'answer "Do you know…?" quizzes'],
+    ['Y, N', 'count a typed sentence graded wrong as right, or not'],
+    ['1, 2, 3…', 'pick a multiple choice answer'],
+    ['Space or Enter', 'continue after a wrong answer'],
+    ['Esc', 'leave the answer box, then end the session, then close its summary'],
+  ];
+  return ce('details', null, ce('summary', null, 'Keyboard shortcuts'),
+            ce('ul', null, ...rows.map(([keys, what]) => ce('li', null, ce('kbd', null, keys), ': ', what))));
+}
+
+// Which acceptable answer the previous quiz's typed answer matched, if it isn't the one shown
+function acceptedNote({linkText, accepted}: PreviousQuiz) {
+  return accepted && accepted !== linkText.replace(/\s/g, '') ? ` (accepted as ${accepted})` : '';
+}
+// Things to do about the quiz just taken: undo it, or rescale its half-life if it was too easy/hard
+function previousQuizControls(previousQuiz: PreviousQuiz, dispatch: Dispatch<QuizAction>) {
+  const {undo} = previousQuiz;
+  if (!undo) { return ''; }
+  const onClick = async () => {
+    await undoReview(undo.eventIds);
+    const action: QuizAction_UndoQuiz = {type: QuizActionType.undoQuiz, quiz: undo.quiz};
+    dispatch(action);
+  };
+  return ce(Fragment, null, ce('button', {onClick}, 'Undo'), ce(Rescale, {modelKey: undo.quiz.quizKey}));
+}
+
 // Quiz app: props are all facts on THIS page: this comes from Redux (which we populated in `setup`). Then, from
 // Pouchdb, which persists even after browser closes, we load memory models.
 function Quiz(props: PageState) {
   const memories = props.memories;
   const [stateMachine, dispatch] = useReducer(quizReducer, quizInitialState);
+  const [settings, setSettings] = useState(loadSessionSettings);
+  // filled in below, depending on the state: they're only listened for once this renders
+  const shortcuts: Shortcuts = {};
+  useShortcuts(shortcuts);
+
+  const changeSettings = (settings: SessionSettings) => {
+    saveSessionSettings(settings);
+    setSettings(settings);
+  };
+  const startSession = () => {
+    const action: QuizAction_StartQuizSession = {type: QuizActionType.startQuizSession, settings, date: Date.now()};
+    dispatch(action);
+  };
+  const endSession = (reason?: string) => {
+    const action: QuizAction_DoneQuizzing = {type: QuizActionType.doneQuizSession, date: Date.now(), reason};
+    dispatch(action);
+  };
+  if (stateMachine.state !== QuizStateType.init) { shortcuts.Escape = () => endSession(); }
 
   // console.log({props, stateMachine})
   const nothing = ce('div', null, 'typescript pacification');
   if (stateMachine.state === QuizStateType.init) {
     const possible = Object.values(memories).filter(o => !!o.ebisu).length;
     if (possible === 0) { return ce('p', null, `Facts known: 0! Learn some!`); }
-    const button = ce('button', {onClick: e => dispatch({type: QuizActionType.startQuizSession})}, 'Review!');
-    return ce('p', null, `Facts known: ${possible}! Shall we review? `, button);
+    shortcuts.r = startSession;
+    const button = ce('button', {onClick: e => startSession()}, 'Review! (R)');
+    return ce('div', null, `Facts known: ${possible}! Shall we review? `, button,
+              ce(SessionSettingsForm, {settings, onChange: changeSettings}), ce(KeyboardHelp));
   } else if (stateMachine.state === QuizStateType.picking) {
+    const {session} = stateMachine;
     const now = Date.now();
-    const status: {min?: [string, Memory]} = {};
-    argmin(Object.entries(memories), ([k, m]) => {
-      if (m.ebisu) {
-        const model = m as Memory;
-        const lastSeen = new Date(model.lastSeen).valueOf();
-        const elapsedHours = (now - lastSeen) / 3600e3;
-        const ret = ebisu.predictRecall(model.ebisu, elapsedHours);
-        // console.log({k, ebisu: model.ebisu.join(','), lastseen: model.lastSeen, ret});
-        return ret;
+    if (sessionOver(session, now)) {
+      endSession('Reached the session limit.');
+      return nothing;
+    }
+    const factType = (key: string, m: Partial<Memory>) =>
+        key in props.facts ? props.facts[key].factType
+                           : m.source ? (m.source as FactSource<Keyed<Fact>>).fact.factType : undefined;
+    // facts on this page, or learned elsewhere and saved with their memories, of the kinds this session is for
+    const candidates: Candidate[] = [];
+    for (const [key, memory] of Object.entries(memories)) {
+      const type = factType(key, memory);
+      if (memory.ebisu && type && sessionIncludes(session.settings, type, key)) {
+        candidates.push({key, memory: memory as Memory, factType: type});
       }
-      return Infinity;
-    }, status);
-    const toQuizKeyVal = status.min;
-    if (!toQuizKeyVal) { return ce(Fragment, null, 'Nothing to quiz!'); }
-    const toQuizKey = toQuizKeyVal[0];
-    const fact = toQuizKey in props.facts ? props.facts[toQuizKey] : undefined;
-    if (!fact) { return ce(Fragment, null, 'ERROR: best quiz from Pouchdb not in Redux?') }
-
-    const parentKey = toQuizKey.split('/').slice(0, 2).join('/') + '/meaning';
-    const parent = props.facts[parentKey];
-    const action: QuizAction_StartQuiz = {
-      type: QuizActionType.startQuiz,
-      fact,
-      quizKey: toQuizKey,
-      parent: parent && parent.factType === FactType.Sentence ? parent : undefined
-    };
+    }
+    const {settings: {scheduler, threshold}, results: history} = session;
+    const toQuizKey = SCHEDULERS[scheduler]({candidates, history, now, threshold});
+    if (!toQuizKey) {
+      endSession(history.length ? 'Nothing else is due.' : 'Nothing is due.');
+      return nothing;
+    }
+    const memory = memories[toQuizKey] as Memory;
+    let action: QuizAction_StartQuiz;
+    if (toQuizKey in props.facts) {
+      const fact = props.facts[toQuizKey];
+      const parent = parentSentence(toQuizKey, props.facts);
+      action = {type: QuizActionType.startQuiz, fact, quizKey: toQuizKey, parent};
+    } else {
+      const source = memory.source as FactSource<Keyed<Fact>>;
+      const parent = source.parent && source.parent.factType === FactType.Sentence ? source.parent : undefined;
+      action = {type: QuizActionType.startQuiz, fact: source.fact, quizKey: toQuizKey, parent, url: source.url};
+    }
+    if (action.fact.factType === FactType.Vocab) {
+      // a different few each time, if the vocab is in lots of this page's sentences
+      action.examples = shuffle(props.sentencesByFact[toQuizKey] || []).slice(0, NUM_EXAMPLES);
+    }
     dispatch(action);
     return nothing;
   } else if (stateMachine.state === QuizStateType.quizzing) {
-    const {quizKey, fact, parent} = stateMachine.action;
+    const {quizKey, fact, parent, examples, url} = stateMachine.action;
     const memory: Partial<Memory>|undefined = memories[quizKey];
     if (!(memory && memory.ebisu)) {
       // quiz must have been unlearned
@@ -626,37 +880,118 @@ function Quiz(props: PageState) {
       dispatch(action);
       return nothing;
     }
-    const props = {quizKey, fact, parent};
+    const quizProps = {quizKey, fact, parent, examples, url, facts: props.facts};
     const model = memory.ebisu.join(',');
     return ce('div', null,
               ce('h2', null, `gonna quiz ${quizKey}, model=${model}, last seen=${memories[quizKey].lastSeen}`),
-              ce(QuizDispatch.Provider, {value: dispatch as any}, ce(FactQuiz, props)),
+              url ? ce('p', null, 'From another page: ', ce('a', {href: url}, 'open source page')) : '',
+              // `key` so undoing into the same kind of quiz starts with a fresh `FactQuiz`
+              ce(QuizDispatch.Provider, {value: dispatch as any}, ce(FactQuiz, {...quizProps, key: quizKey})),
               stateMachine.previousQuiz ? ce('p', null,
-                                             ce('a', {href: `#${stateMachine.previousQuiz.linkId}`},
-                                                `Previous quiz: ${stateMachine.previousQuiz.linkText}`))
-                                        : '');
+                                             ce('a', {
+                                               href: factHref(stateMachine.previousQuiz.linkId,
+                                                              stateMachine.previousQuiz.url)
+                                             },
+                                                `Previous quiz: ${stateMachine.previousQuiz.linkText}`),
+                                             acceptedNote(stateMachine.previousQuiz),
+                                             previousQuizControls(stateMachine.previousQuiz, dispatch))
+                                        : '',
+              sessionProgress(stateMachine.session, endSession), ce(KeyboardHelp));
   } else if (stateMachine.state === QuizStateType.feedbacking) {
-    const button = ce('button', {onClick: e => dispatch({type: QuizActionType.startQuizSession})}, 'Review!');
-    return ce('div', null, 'Oops you got that wrong! <insert feedback>. Onward!', button);
+    const {previousQuiz} = stateMachine.action;
+    const onward = () => dispatch({type: QuizActionType.startQuizSession, previousQuiz});
+    shortcuts[' '] = shortcuts.Enter = onward;
+    const button = ce('button', {onClick: e => onward()}, 'Onward! (Space)');
+    return ce('div', null, ce(QuizFeedback, stateMachine.action), button, previousQuizControls(previousQuiz, dispatch),
+              sessionProgress(stateMachine.session, endSession), ce(KeyboardHelp));
+  } else if (stateMachine.state === QuizStateType.summary) {
+    const {count, correct, minutes, missed} = summarizeSession(stateMachine.session, stateMachine.ended);
+    const score = count ? `: ${correct} right (${(100 * correct / count).toFixed(0)}%)` : '';
+    const missedList = missed.map(o => ce('li', null, ce('a', {href: factHref(o.linkId, o.url)}, o.linkText)));
+    shortcuts.r = startSession;
+    const again = ce('button', {onClick: e => startSession()}, 'Review again (R)');
+    const close = ce('button', {onClick: e => endSession()}, 'Close (Esc)');
+    return ce('div', null, ce('h2', null, 'Session over'),
+              ce('p', null, stateMachine.reason || '', ` Reviewed ${count} in ${formatHours(minutes / 60)}${score}.`),
+              missedList.length ? ce(Fragment, null, ce('p', null, 'Missed:'), ce('ul', null, ...missedList)) : '',
+              again, close);
   }
   assertNever(stateMachine);
 }
 
-interface QuizEvent {
-  version: '1';
-  modelKey: string;
-  active: boolean;
-  date: string;
-  result: boolean;
-  newEbisu: EbisuModel;
-  oldEbisu: EbisuModel;
-  lastSeen: string;
-  extra: Partial<{response: string}>;
-}
-async function reviewSentence(quizKey: string, result: boolean, response?: string, date?: Date) {
-  // if `key = 'model/AAA/reading'`, `superkey = 'model/AAA'`.
-  const superkey = quizKey.split('/').slice(0, 2).join('/');
-  const res = await db.allDocs({startkey: superkey + '/', endkey: superkey + '/\ufff0'});
+// How far along the session is, and a button to end it
+function sessionProgress({settings, started, results}: Session, endSession: () => void) {
+  const {maxQuizzes, maxMinutes} = settings;
+  const minutes = (Date.now() - started) / 60e3;
+  const text = `This session: ${results.length}${maxQuizzes ? ` of ${maxQuizzes}` : ''} reviewed, ${
+      minutes.toFixed(0)}${maxMinutes ? ` of ${maxMinutes}` : ''} min. `;
+  const end = ce('button', {onClick: e => endSession()}, 'End session (Esc)');
+  return ce('p', null, text, end);
+}
+
+const FACT_TYPE_NAMES: [FactType, string][] = [
+  [FactType.Sentence, 'sentences'],
+  [FactType.Vocab, 'vocab'],
+  [FactType.Particle, 'particles'],
+  [FactType.Conjugated, 'conjugated phrases'],
+];
+const QUIZ_KIND_NAMES: Record<QuizKind, string> = {
+  meaning: 'meaning',
+  reading: 'reading',
+  production: 'translation to Japanese',
+  cloze: 'fill in the blank',
+};
+const SCHEDULER_NAMES: Record<SchedulerName, string> = {
+  lowest: 'the due fact most likely forgotten',
+  random: 'any due fact, at random',
+  spaced: 'the due fact most likely forgotten, spacing out related facts',
+  mix: 'the due fact most likely forgotten, mixing in new facts gradually',
+};
+// What the next review session will quiz, and for how long
+function SessionSettingsForm(props: {settings: SessionSettings, onChange: (settings: SessionSettings) => void}) {
+  const {settings, onChange} = props;
+  const number = (value: number|undefined, onValue: (n: number) => void) => ce('input', {
+    type: 'number',
+    min: 0,
+    step: 'any',
+    defaultValue: typeof value === 'number' ? value : '',
+    onChange: e => onValue(parseFloat(e.target.value)),
+  });
+  const positive = (n: number) => n > 0 ? n : undefined;
+  const checkbox = (label: string, checked: boolean, onToggle: () => void) =>
+      ce('label', null, ce('input', {type: 'checkbox', checked, onChange: e => onToggle()}), label, ' ');
+  function toggle<T>(list: T[], item: T) {
+    return list.includes(item) ? list.filter(o => o !== item) : list.concat(item);
+  }
+
+  const factTypes = FACT_TYPE_NAMES.map(([factType, name]) => {
+    const factTypes = toggle(settings.factTypes, factType);
+    return checkbox(name, settings.factTypes.includes(factType), () => onChange({...settings, factTypes}));
+  });
+  const quizKinds = QUIZ_KINDS.map(kind => {
+    const quizKinds = toggle(settings.quizKinds, kind);
+    return checkbox(QUIZ_KIND_NAMES[kind], settings.quizKinds.includes(kind), () => onChange({...settings, quizKinds}));
+  });
+  const schedulers = Object.entries(SCHEDULER_NAMES).map(([value, name]) => ce('option', {value}, name));
+  const onScheduler = (e: ChangeEvent<HTMLSelectElement>) =>
+      onChange({...settings, scheduler: e.target.value as SchedulerName});
+  return ce(
+      'details', null, ce('summary', null, 'Session settings'),
+      ce('p', null, 'Stop after ', number(settings.maxQuizzes, n => onChange({...settings, maxQuizzes: positive(n)})),
+         ' quizzes or ', number(settings.maxMinutes, n => onChange({...settings, maxMinutes: positive(n)})),
+         ' minutes (blank for no limit).'),
+      ce('p', null, 'Only quiz facts whose recall is below ',
+         number(settings.threshold * 100,
+                n => n > 0 && n <= 100 && onChange({...settings, threshold: n / 100})),
+         '% (100 to review everything).'),
+      ce('p', null, 'Quiz ', ...factTypes), ce('p', null, 'Quizzes: ', ...quizKinds),
+      ce('p', null, 'Next, quiz ', ce('select', {value: settings.scheduler, onChange: onScheduler}, ...schedulers)));
+}
+
+async function reviewSentence(quizKey: string, result: boolean, extra: QuizEvent['extra'] = {}, date?: Date) {
+  // if `key = 'model/AAA/reading'`, `superkey = 'model/AAA/'`.
+  const superkey = modelKeyGroup(quizKey);
+  const res = await db.allDocs({startkey: superkey, endkey: superkey + '\ufff0'});
   // https://docs.couchdb.org/en/stable/ddocs/views/collation.html#string-ranges
 
   const relatedKeys = res.rows.map(r => r.id);
@@ -666,7 +1001,6 @@ async function reviewSentence(quizKey: string, result: boolean, response?: strin
 
   // After Ebisu updater (active or passive), the quiz log info will be stored here
   const events: Record<string, QuizEvent> = {};
-  const extra: QuizEvent['extra'] = response ? {response} : {};
 
   // update memory models/timestamps and wait till completion
   await Promise.all(relatedKeys.map(key => {
@@ -679,7 +1013,7 @@ async function reviewSentence(quizKey: string, result: boolean, response?: strin
         if (active) {
           const elapsedHours = (now - (new Date(lastSeen)).valueOf()) / 3600e3;
           const newEbisu = ebisu.updateRecall(ebisuModel, result, elapsedHours)
-          newModel = {version: '1', ebisu: newEbisu, lastSeen: stringyDate};
+          newModel = {version: '1', ebisu: newEbisu, lastSeen: stringyDate, reviews: (old.reviews || 0) + 1};
         } else {
           newModel = {version: '1', ebisu: ebisuModel, lastSeen: stringyDate};
         }
@@ -708,186 +1042,559 @@ async function reviewSentence(quizKey: string, result: boolean, response?: strin
     return db.upsert(eventKey, old => ({...old, ...events[modelKey]}))
   });
 
-  return Promise.all(logPromises);
+  // the event ids are enough to undo this review
+  return (await Promise.all(logPromises)).map(res => res.id);
+}
+
+/**
+Sets a memory's half-life to `newHalflife(oldHalflife)` (both in hours), leaving `lastSeen` alone, and logs it.
+*/
+async function rescaleHalflife(modelKey: string, newHalflife: (halflife: number) => number, date?: Date) {
+  const stringyDate = (date || new Date()).toISOString();
+  let event: RescaleEvent|undefined;
+  await db.upsert(modelKey, (old: Partial<Memory>) => {
+    if (!(old.ebisu && old.lastSeen)) { return false; }
+    const scale = newHalflife(halflife(old.ebisu)) / halflife(old.ebisu);
+    if (!(scale > 0 && isFinite(scale))) { return false; }
+    const newModel: Memory = {version: '1', ebisu: rescaleModel(old.ebisu, scale), lastSeen: old.lastSeen};
+    event = {
+      version: '1',
+      eventType: 'rescale',
+      modelKey,
+      date: stringyDate,
+      scale,
+      newEbisu: newModel.ebisu,
+      oldEbisu: old.ebisu,
+      lastSeen: old.lastSeen
+    };
+    return {...old, ...newModel};
+  });
+  if (event) {
+    const eventKey = `quiz/${stringyDate}-${Math.random().toString(36).slice(2)}-rescale`;
+    await db.upsert(eventKey, old => ({...old, ...event}));
+  }
+}
+
+/**
+Reverts the memories a review updated to their state before it, and marks that review's events as undone (they stay
+in the log). A memory that has been reviewed again since (its `lastSeen` moved on) is left alone.
+*/
+async function undoReview(eventIds: string[], date?: Date) {
+  const undone = (date || new Date()).toISOString();
+  await Promise.all(eventIds.map(async eventId => {
+    let event: QuizEvent;
+    try {
+      event = await db.get(eventId) as unknown as QuizEvent;
+    } catch { return; }
+    if (event.undone) { return; }
+    await db.upsert(event.modelKey, (old: Partial<Memory>) => {
+      if (!(old.ebisu && old.lastSeen === event.date)) { return false; }
+      const restored: Memory = {version: '1', ebisu: event.oldEbisu, lastSeen: event.lastSeen};
+      if (event.active && old.reviews) { restored.reviews = old.reviews - 1; }
+      return {...old, ...restored};
+    });
+    await db.upsert(eventId, old => ({...old, undone}));
+  }));
 }
 
-function FactQuiz(props: {fact: Keyed<Fact>, quizKey: string, parent?: Keyed<SentenceFact>}) {
+// Answer box that also takes romaji, showing the kana it'll be graded as
+function AnswerInput(props: {value: string, onChange: (value: string) => void, disabled?: boolean}) {
+  const converted = romajiToHiragana(props.value);
+  const input = ce('input', {
+    type: 'text',
+    value: props.value,
+    disabled: props.disabled,
+    autoFocus: true,
+    onChange: e => props.onChange(e.target.value)
+  });
+  return ce(Fragment, null, input,
+            converted !== props.value ? ce('span', null, ` → ${converted} `) : '');
+}
+
+function displayDefinition(definition: string) { return definition.replace(/\s*#\d+\s*$/, ''); }
+
+interface MultipleChoice {
+  reverse: boolean;  // if true, show the definition and ask for the headword, else vice versa
+  options: {text: string, correct: boolean}[];
+}
+/**
+Builds a multiple choice quiz for a vocab's meaning using other vocab on the page as distractors. Returns undefined if
+there aren't enough of those, so the caller can fall back to a self-graded quiz.
+*/
+function multipleChoice(vocab: VocabFact, facts: Record<string, Keyed<Fact>>, numDistractors = 4,
+                        minDistractors = 3): MultipleChoice|undefined {
+  const reverse = Math.random() < 0.5;
+  const text = (v: VocabFact) => reverse ? v.kanjiKana.join('・') : displayDefinition(v.definition);
+  const correct = text(vocab);
+
+  // `facts` has one entry per key so dedupe, and skip vocab that would look just like the right answer
+  const distractors: Set<string> = new Set();
+  for (const fact of Object.values(facts)) {
+    if (fact.factType === FactType.Vocab && text(fact) !== correct && fact.definition !== vocab.definition) {
+      distractors.add(text(fact));
+    }
+  }
+  if (distractors.size < minDistractors) { return undefined; }
+
+  const options =
+      shuffle(Array.from(distractors)).slice(0, numDistractors).map(text => ({text, correct: false}));
+  options.push({text: correct, correct: true});
+  return {reverse, options: shuffle(options)};
+}
+function shuffle<T>(v: T[]): T[] {
+  const ret = v.slice();
+  for (let i = ret.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [ret[i], ret[j]] = [ret[j], ret[i]];
+  }
+  return ret;
+}
+
+// How many of the sentences a vocab is in its quizzes show
+const NUM_EXAMPLES = 2;
+/**
+Sentences a vocab is in, for context. In its meaning quizzes, the translations start out collapsed (they'd hint at the
+meaning).
+*/
+function ExampleSentences(props: {sentences: Keyed<SentenceFact>[], hideTranslations?: boolean, links?: boolean}) {
+  const {sentences, hideTranslations, links} = props;
+  if (!sentences.length) { return ce(Fragment, null, ''); }
+  const items = sentences.map(sentence => {
+    const text = ce(FuriganaComponent, {furiganas: sentence.furigana});
+    const translations = ce('ul', null, ...Object.values(sentence.translation).map(s => ce('li', null, s)));
+    return ce('li', null, links ? ce('a', {href: factHref(sentence.keys[0])}, text) : text,
+              hideTranslations ? ce('details', null, ce('summary', null, 'Translation'), translations) : translations);
+  });
+  return ce('div', null, sentences.length > 1 ? 'Examples:' : 'Example:', ce('ul', null, ...items));
+}
+
+function FactQuiz(props: {
+  fact: Keyed<Fact>,
+  quizKey: string,
+  parent?: Keyed<SentenceFact>,
+  examples?: Keyed<SentenceFact>[],
+  url?: string,               // the page the fact was learned on, if it isn't this one
+  facts: PageState['facts'],  // everything on the page, e.g., for multiple choice distractors
+}) {
   const {fact, quizKey} = props;
   const [input, setInput] = useState('');
   const dispatch = useContext(QuizDispatch);
+  // picked once per quiz, not per render
+  const [choices] = useState(() => fact.factType === FactType.Vocab && quizKey.endsWith('meaning')
+                                       ? multipleChoice(fact, props.facts)
+                                       : undefined);
+  // set when a typed answer was almost right: the learner gets one more try before the review is logged
+  const [nearMiss, setNearMiss] = useState(undefined as undefined | Grading);
+  // set when a typed sentence was graded wrong: the learner decides if it was a paraphrase that still counts
+  const [overrule, setOverrule] = useState(undefined as undefined | {actual: string, grading: Grading});
+  // set once the review is being logged, so a second answer (a double Enter, say) doesn't log it twice. The ref is for
+  // listeners from earlier renders, the state disables the buttons
+  const saving = useRef(false);
+  const [disabled, setDisabled] = useState(false);
+  // cleared when this quiz is done with, e.g., the session ended while its review was being logged
+  const mounted = useRef(true);
+  useEffect(() => () => { mounted.current = false; }, []);
+  // filled in below for self-graded and multiple choice quizzes (typed ones are submitted with Enter)
+  const shortcuts: Shortcuts = {};
+  useShortcuts(shortcuts);
+  const selfGraded = (linkId: string, linkText: string) => {
+    const pass = () => finish(true, linkId, linkText);
+    const fail = () => finish(false, linkId, linkText);
+    shortcuts.y = shortcuts['1'] = pass;
+    shortcuts.n = shortcuts['2'] = fail;
+    return [
+      ce('button', {disabled, onClick: e => pass()}, 'Yes! (Y)'),
+      ce('button', {disabled, onClick: e => fail()}, 'No (N)'),
+    ];
+  };
+
+  // Logs the review, then moves on to the next quiz (on success) or feedback (on failure)
+  const finish = async (result: boolean, linkId: string, linkText: string, response = '', grading?: Grading,
+                        overridden = false) => {
+    if (saving.current) { return; }
+    saving.current = true;
+    setDisabled(true);
+    // log what was typed as well as its romaji-to-kana conversion
+    const extra: QuizEvent['extra'] = response ? (input ? {response, rawResponse: input} : {response}) : {};
+    if (grading) {
+      extra.grade = grading.grade;
+      extra.attempts = nearMiss ? 2 : 1;
+      if (nearMiss) { extra.nearMiss = nearMiss.reason; }
+      if (overridden) { extra.overridden = true; }
+    }
+    const eventIds = await reviewSentence(quizKey, result, extra);
+    // the review is logged either way, but the quiz app has moved on without it
+    if (!mounted.current) { return; }
+    const {parent, examples, url} = props;
+    const quiz: QuizAction_StartQuiz = {type: QuizActionType.startQuiz, fact, quizKey, parent, examples, url};
+    const previousQuiz: PreviousQuiz = {quizKey, linkId, linkText, url, result, undo: {eventIds, quiz}};
+    if (grading && grading.grade === 'correct') { previousQuiz.accepted = grading.expected; }
+    if (result) {
+      const action: QuizAction_StartQuizSession = {type: QuizActionType.startQuizSession, previousQuiz};
+      dispatch(action);
+    } else {
+      const action: QuizAction_FailQuiz =
+          {type: QuizActionType.failQuiz, fact, quizKey, parent, examples, response, previousQuiz};
+      dispatch(action);
+    }
+  };
+
+  /**
+  Answer box for typed quizzes, graded against any of the `acceptable` answers. For whole `sentences`, punctuation
+  doesn't matter and the learner can overrule a wrong grade.
+  */
+  const answerForm = (acceptable: string[], linkId: string, linkText: string, sentences = false) => {
+    if (overrule) {
+      const {actual, grading} = overrule;
+      const accept = () => finish(true, linkId, linkText, actual, grading, true);
+      const reject = () => finish(false, linkId, linkText, actual, grading);
+      shortcuts.y = accept;
+      shortcuts.n = reject;
+      const yes = ce('button', {disabled, onClick: e => accept()}, 'Yes, count it as right (Y)');
+      const no = ce('button', {disabled, onClick: e => reject()}, 'No (N)');
+      const expected = closestAnswer(acceptable.map(withoutPunctuation), actual);
+      return ce('div', null, ce(DiffComponent, {expected, actual}), 'Not quite. Does yours mean the same anyway? ', yes,
+                no);
+    }
+    const onSubmit = (e: FormEvent) => {
+      e.preventDefault();  // Enter in the answer box submits
+      if (saving.current) { return; }
+      const typeds = romajiToHiraganas(input).map(s => kata2hira(s));
+      const {actual, grading} = gradeAnswers(sentences ? acceptable.map(withoutPunctuation) : acceptable,
+                                             sentences ? typeds.map(withoutPunctuation) : typeds);
+      if (grading.grade === 'nearMiss' && !nearMiss) {
+        setNearMiss(grading);
+      } else if (grading.grade !== 'correct' && sentences) {
+        setOverrule({actual, grading});
+      } else {
+        finish(grading.grade === 'correct', linkId, linkText, actual, grading);
+      }
+    };
+    return ce('form', {onSubmit}, ce(AnswerInput, {value: input, onChange: setInput, disabled}),
+              ce('button', {type: 'submit', disabled}, 'Submit'),
+              nearMiss ? ce('span', null, ` Almost (${nearMiss.reason})! Try once more.`) : '');
+  };
 
   if (fact.factType === FactType.Sentence) {
     const linkText = furiganaToRuby(fact.furigana);
     if (quizKey.endsWith('meaning')) {
-      const buttons = [
-        ce('button', {
-          onClick: async e => {
-            await reviewSentence(quizKey, true)
-            const action: QuizAction_StartQuizSession = {
-              type: QuizActionType.startQuizSession,
-              previousQuiz: {linkId: fact.keys[0], linkText, result: true}
-            };
-            dispatch(action);
-          }
-        },
-           'Yes!'),
-        ce('button', {
-          onClick: async e => {
-            await reviewSentence(quizKey, false)
-            const action: QuizAction_FailQuiz =
-                {type: QuizActionType.failQuiz, fact, quizKey, parent: props.parent, response: ''};
-            dispatch(action);
-          }
-        },
-           'No')
-      ];
       return ce('p', null, 'Do you know what this sentence means? ', ce(FuriganaComponent, {furiganas: fact.furigana}),
-                ...buttons);
+                ...selfGraded(fact.keys[0], linkText));
     } else if (quizKey.endsWith('reading')) {
-      const form = ce('input', {type: 'text', value: input, onChange: e => setInput(e.target.value)});
-      const submit = ce('button', {
-        onClick: async e => {
-          const expected = furiganaToHiragana(fact.furigana).replace(/\s/g, '');
-          const actual = kata2hira(input);
-          const result = expected === actual.replace(/\s/g, '');
-          await reviewSentence(quizKey, result, actual);
-
-          if (result) {
-            const action: QuizAction_StartQuizSession = {
-              type: QuizActionType.startQuizSession,
-              previousQuiz: {linkId: fact.keys[0], linkText, result: true}
-            };
-            dispatch(action);
-          } else {
-            const action: QuizAction_FailQuiz =
-                {type: QuizActionType.failQuiz, fact, quizKey, parent: props.parent, response: input};
-            dispatch(action);
-          }
-        }
-      },
-                        'Submit');
-      return ce('p', null, 'What is the reading for this sentence? ', furiganaToRuby(fact.furigana), form, submit);
+      const form = answerForm([furiganaToHiragana(fact.furigana)], fact.keys[0], linkText);
+      return ce('div', null, 'What is the reading for this sentence? ', furiganaToRuby(fact.furigana), form);
+    } else if (quizKey.endsWith('production')) {
+      // the kanji or kana spelling of the whole sentence
+      const form = answerForm([linkText, furiganaToHiragana(fact.furigana)], fact.keys[0], linkText, true);
+      const vocab = fact.subfacts.filter((o): o is Keyed1<VocabFact> => o.factType === FactType.Vocab);
+      const hints = vocab.map(o => ce('li', null, `${o.kanjiKana.join('・')}：${displayDefinition(o.definition)}`));
+      return ce('div', null, 'How do you say this in Japanese?',
+                ce('ul', null, ...Object.values(fact.translation).map(s => ce('li', null, s))),
+                hints.length ? ce('details', null, ce('summary', null, 'Vocab hints'), ce('ul', null, ...hints)) : '',
+                form);
     } else {
       throw new Error('unknown sentence quiz type');
     }
   } else if (fact.factType === FactType.Vocab) {
     const joined = fact.kanjiKana.join('・');
-    if (quizKey.endsWith('meaning')) {
-      const buttons = [
-        ce('button', {
-          onClick: async e => {
-            await reviewSentence(quizKey, true)
-            const action: QuizAction_StartQuizSession = {
-              type: QuizActionType.startQuizSession,
-              previousQuiz: {linkId: fact.keys[0], linkText: joined, result: true}
-            };
-            dispatch(action);
-          }
-        },
-           'Yes!'),
-        ce('button', {
-          onClick: async e => {
-            await reviewSentence(quizKey, false)
-            const action: QuizAction_FailQuiz =
-                {type: QuizActionType.failQuiz, fact, quizKey, parent: props.parent, response: ''};
-            dispatch(action);
-          }
-        },
-           'No')
-      ];
-      return ce('p', null, 'Do you know what this vocabulary means? ', joined, ...buttons);
+    const sentences = props.examples || [];
+    if (quizKey.endsWith('meaning') && choices) {
+      const buttons = choices.options.map(({text, correct}, i) => {
+        const pick = () => finish(correct, fact.keys[0], joined, text);
+        shortcuts[String(i + 1)] = pick;
+        return ce('li', null, ce('button', {disabled, onClick: () => pick()}, text));
+      });
+      // the sentences would give away the vocab asked for
+      const prompt = choices.reverse
+                         ? ce('p', null, 'Which vocabulary means this? ', displayDefinition(fact.definition))
+                         : ce('p', null, 'What does this vocabulary mean? ', joined);
+      const examples = choices.reverse ? '' : ce(ExampleSentences, {sentences, hideTranslations: true});
+      return ce('div', null, prompt, ce('ol', null, ...buttons), examples);
+    } else if (quizKey.endsWith('meaning')) {
+      return ce('div', null,
+                ce('p', null, 'Do you know what this vocabulary means? ', joined, ...selfGraded(fact.keys[0], joined)),
+                ce(ExampleSentences, {sentences, hideTranslations: true}));
     } else if (quizKey.endsWith('reading')) {
-      const form = ce('input', {type: 'text', value: input, onChange: e => setInput(e.target.value)});
-      const submit = ce('button', {
-        onClick: async e => {
-          const expected = fact.kanjiKana.filter(s => !hasKanji(s)).map(kata2hira);
-          const actual = kata2hira(input).trim();
-          const result = expected.indexOf(actual) >= 0;
-          await reviewSentence(quizKey, result, actual);
-
-          if (result) {
-            const action: QuizAction_StartQuizSession = {
-              type: QuizActionType.startQuizSession,
-              previousQuiz: {linkId: fact.keys[0], linkText: joined, result: true}
-            };
-            dispatch(action);
-          } else {
-            const action: QuizAction_FailQuiz =
-                {type: QuizActionType.failQuiz, fact, quizKey, parent: props.parent, response: input};
-            dispatch(action);
-          }
-        }
-      },
-                        'Submit');
-      return ce('p', null, 'What is a reading for these kanji? ', fact.kanjiKana.filter(hasKanji).join('・'), form,
-                submit);
+      const form = answerForm(fact.kanjiKana.filter(s => !hasKanji(s)), fact.keys[0], joined);
+      // no examples: a sentence can spell the vocab in kana, which is the answer
+      return ce('div', null, 'What is a reading for these kanji? ', fact.kanjiKana.filter(hasKanji).join('・'), form);
     } else {
       throw new Error('unknown sentence quiz type');
     }
   } else if (fact.factType === FactType.Conjugated) {
     const {parent} = props;
-    if (!parent) { throw new Error('parent not given'); }
-    const text = furiganaToRuby(parent.furigana);
     const expected = furiganaToRuby(fact.expected);
-    const hidden = text.replace(expected, '■■');
-    const form = ce('input', {type: 'text', value: input, onChange: e => setInput(e.target.value)});
-    const submit = ce('button', {
-      onClick: async e => {
-        const actual = kata2hira(input);
-        const result = expected === actual.replace(/\s/g, '');
-        await reviewSentence(quizKey, result, actual);
-
-        if (result) {
-          const action: QuizAction_StartQuizSession = {
-            type: QuizActionType.startQuizSession,
-            previousQuiz: {linkId: parent.keys[0], linkText: expected, result: true}
-          };
-          dispatch(action);
-        } else {
-          const action: QuizAction_FailQuiz =
-              {type: QuizActionType.failQuiz, fact, quizKey, parent: props.parent, response: input};
-          dispatch(action);
-        }
-      }
-    },
-                      'Submit');
-    return ce('div', null, 'Fill in the blank (sorry no furigana yet): ' + hidden, form, submit,
+    const linkId = (parent || fact).keys[0];
+    // the kanji form, the all-kana reading, or any mix segment by segment
+    const form = answerForm(furiganaSpellings(fact.expected), linkId, expected);
+    let prompt;
+    if (parent) {
+      const found = findCloze(fact, parent.furigana);
+      prompt = ce(Fragment, null, 'Fill in the blank: ',
+                  found ? ce(ClozeComponent, {furigana: parent.furigana, ...found})
+                        : ce(FuriganaComponent, {furiganas: parent.furigana}));
+    } else {
+      prompt = 'Conjugate: ';
+    }
+    return ce('div', null, prompt, form,
               ce('ul', null, ce('li', null, 'Hint: ', ce(FuriganaComponent, {furiganas: fact.hints})),
-                 ...Object.values(parent.translation).map(s => ce('li', null, s))));
+                 ...Object.values(parent ? parent.translation : {}).map(s => ce('li', null, s))));
   } else if (fact.factType === FactType.Particle) {
     const {parent} = props;
-    if (!parent) { throw new Error('parent not given'); }
-    const text = furiganaToRuby(parent.furigana);
     const {left, right, cloze} = fact;
-    const hidden = text.replace(`${left || ''}${cloze}${right || ''}`, `${left || ''}■■${right || ''}`);
-    const form = ce('input', {type: 'text', value: input, onChange: e => setInput(e.target.value)});
-    const submit = ce('button', {
-      onClick: async e => {
-        const actual = kata2hira(input);
-        const result = cloze === actual.replace(/\s/g, '');
-        await reviewSentence(quizKey, result, actual);
-
-        if (result) {
-          const action: QuizAction_StartQuizSession = {
-            type: QuizActionType.startQuizSession,
-            previousQuiz: {linkId: parent.keys[0], linkText: cloze, result: true}
-          };
-          dispatch(action);
-        } else {
-          const action: QuizAction_FailQuiz =
-              {type: QuizActionType.failQuiz, fact, quizKey, parent: props.parent, response: input};
-          dispatch(action);
-        }
-      }
-    },
-                      'Submit');
-    return ce('div', null, 'Fill in the blank: ' + hidden, form, submit,
-              ce('ul', null, ...Object.values(parent.translation).map(s => ce('li', null, s))));
+    const linkId = (parent || fact).keys[0];
+    let hidden;
+    if (parent) {
+      const found = findCloze(fact, parent.furigana);
+      hidden = found ? ce(ClozeComponent, {furigana: parent.furigana, ...found})
+                     : ce(FuriganaComponent, {furiganas: parent.furigana});
+    } else {
+      // without a sentence, show just the particle's own context, like `ParticleComponent` does
+      hidden = `${left ? '…' + left : ''}■■${right ? right + '…' : ''}`;
+    }
+    const form = answerForm([cloze], linkId, cloze);
+    return ce('div', null, 'Fill in the blank: ', hidden, form,
+              ce('ul', null, ...Object.values(parent ? parent.translation : {}).map(s => ce('li', null, s))));
   } else {
     assertNever(fact);
   }
 }
 
+// The expected answer for a quiz, as a string the learner could have typed (if it was a typed quiz)
+function expectedAnswers(fact: Keyed<Fact>, quizKey: string): string[] {
+  if (fact.factType === FactType.Sentence) {
+    if (quizKey.endsWith('production')) {
+      // punctuation isn't graded, see `answerForm`
+      return [furiganaToRuby(fact.furigana), furiganaToHiragana(fact.furigana)].map(withoutPunctuation);
+    }
+    return quizKey.endsWith('reading') ? [furiganaToHiragana(fact.furigana)] : Object.values(fact.translation);
+  } else if (fact.factType === FactType.Vocab) {
+    return quizKey.endsWith('reading') ? fact.kanjiKana.filter(s => !hasKanji(s)).map(kata2hira)
+                                       : [`${fact.kanjiKana.join('・')}：${displayDefinition(fact.definition)}`];
+  } else if (fact.factType === FactType.Conjugated) {
+    const spellings = furiganaSpellings(fact.expected);
+    return spellings.length > 1 ? [spellings[0], spellings[spellings.length - 1]] : spellings;
+  } else if (fact.factType === FactType.Particle) {
+    return [fact.cloze];
+  }
+  return assertNever(fact);
+}
+
+type DiffChunk = {text: string, op: 'same'|'missing'|'extra'};
+/**
+Character-level diff via longest common subsequence. `missing` chunks are in `expected` but not `actual`, `extra` chunks
+are the other way around. Quiz answers are short so the quadratic table is fine.
+*/
+function diffChars(expected: string, actual: string): DiffChunk[] {
+  const a = Array.from(expected);
+  const b = Array.from(actual);
+  // lcs[i][j] = length of the longest common subsequence of a.slice(i) and b.slice(j)
+  const lcs: number[][] = Array.from(Array(a.length + 1), () => Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const ret: DiffChunk[] = [];
+  const push = (text: string, op: DiffChunk['op']) => {
+    const last = ret[ret.length - 1];
+    if (last && last.op === op) {
+      last.text += text;
+    } else {
+      ret.push({text, op});
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push(a[i++], 'same');
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      push(b[j++], 'extra');
+    } else {
+      push(a[i++], 'missing');
+    }
+  }
+  return ret;
+}
+
+// Whichever acceptable answer is closest to what was typed, to compare against it
+function closestAnswer(answers: string[], actual: string): string {
+  const status: {min?: string} = {};
+  argmin(answers, s => diffChars(s, actual).filter(o => o.op !== 'same').length, status);
+  return (status.min || answers[0] || '').replace(/\s/g, '');
+}
+
+function DiffComponent(props: {expected: string, actual: string}) {
+  const diff = diffChars(props.expected, props.actual);
+  const expected = diff.filter(o => o.op !== 'extra').map(o => o.op === 'same' ? o.text : ce('mark', null, o.text));
+  const actual = diff.filter(o => o.op !== 'missing').map(o => o.op === 'same' ? o.text : ce('del', null, o.text));
+  return ce('ul', null, ce('li', null, 'Expected: ', ...expected), ce('li', null, 'You typed: ', ...actual));
+}
+
+function QuizFeedback(props: QuizAction_FailQuiz) {
+  const {fact, quizKey, parent, response} = props;
+  const {url} = props.previousQuiz;
+  const answers = expectedAnswers(fact, quizKey);
+  const actual = kata2hira(response).replace(/\s/g, '');
+
+  let answer;
+  if (quizKey.endsWith('meaning')) {
+    // self-graded or multiple choice, so nothing typed to compare
+    answer = ce('ul', null, ce('li', null, 'The answer: ', answers.join('・')),
+                response ? ce('li', null, 'You picked: ', response) : '');
+  } else if (actual) {
+    answer = ce(DiffComponent, {expected: closestAnswer(answers, actual), actual});
+  } else {
+    answer = ce('p', null, 'The answer: ', answers.join('・'));
+  }
+
+  const sentence = fact.factType === FactType.Sentence ? fact : parent;
+  let context;
+  if (sentence) {
+    context = ce('div', null, ce('p', null, ce(FuriganaComponent, {furiganas: sentence.furigana})),
+                 ce('ul', null, ...Object.values(sentence.translation).map(s => ce('li', null, s))),
+                 ce('p', null, ce('a', {href: factHref(sentence.keys[0], url)},
+                                  url ? 'Open source page' : 'Jump to sentence')));
+  } else {
+    context = ce('p', null, ce('a', {href: factHref(props.previousQuiz.linkId, url)},
+                               url ? 'Open source page' : 'Jump to fact'));
+  }
+  const examples = props.examples ? ce(ExampleSentences, {sentences: props.examples, links: true}) : '';
+  return ce('div', null, ce('h2', null, `Oops, you got ${props.previousQuiz.linkText} wrong`), answer, context,
+            examples);
+}
+
+// Sync with a CouchDB-compatible server, e.g., pouchdb-server. Settings live in localStorage so each device opts in.
+function Sync() {
+  const [settings, setSettings] = useState(loadSyncSettings);
+  const [url, setUrl] = useState(settings.url);
+  const [status, setStatus] = useState({state: 'disabled', pushed: 0, pulled: 0} as SyncStatus);
+
+  useEffect(() => {
+    if (!(settings.enabled && settings.url)) { return; }
+    const sync = startSync(db, settings.url, setStatus);
+    return () => sync.cancel();
+  }, [settings.enabled, settings.url]);
+
+  const save = (settings: SyncSettings) => {
+    saveSyncSettings(settings);
+    setSettings(settings);
+  };
+  const toggle = ce('button', {onClick: e => save({url, enabled: !settings.enabled})},
+                    settings.enabled ? 'Stop syncing' : 'Start syncing');
+  const input = ce('input', {type: 'url', value: url, placeholder: 'http://localhost:5984/kaisei',
+                             onChange: e => setUrl(e.target.value)});
+
+  const {state, lastSynced, pushed, pulled, error} = status;
+  const description = state === 'disabled' ? 'not syncing'
+                                           : `${state}, ${pushed} pushed, ${pulled} pulled` +
+                                                 (lastSynced ? `, up to date as of ${lastSynced}` : '') +
+                                                 (error ? ` (error: ${error})` : '');
+  return ce('details', null, ce('summary', null, `Sync: ${description}`), ce('p', null, 'Server: ', input, toggle));
+}
+
+function download(filename: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], {type}));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Export all memories and quiz events to a file (or just the events as CSV), and import them back
+function Backup() {
+  const [report, setReport] = useState(undefined as undefined | ImportReport | string);
+
+  const exportJson = async () => {
+    const backup = await exportBackup(db);
+    download(`kaisei-${backup.exported}.json`, JSON.stringify(backup), 'application/json');
+  };
+  const exportCsv = async () => {
+    const backup = await exportBackup(db);
+    download(`kaisei-events-${backup.exported}.csv`, eventsToCsv(backup.events), 'text/csv');
+  };
+  const importJson = async (file: File) => {
+    try {
+      setReport(await importBackup(db, JSON.parse(await new Response(file).text())));
+    } catch (e) { setReport(`Import failed: ${e.message}`); }
+  };
+
+  let result;
+  if (typeof report === 'string') {
+    result = ce('p', null, report);
+  } else if (report) {
+    const {memoriesAdded, memoriesUpdated, memoriesKept, eventsAdded, eventsSkipped, rejected} = report;
+    result = ce(
+        'div', null,
+        ce('p', null,
+           `Imported: ${memoriesAdded} new and ${memoriesUpdated} updated memories (${
+               memoriesKept} already up to date), ${eventsAdded} quiz events (${eventsSkipped} already present).`),
+        rejected.length ? ce('ul', null, ...rejected.map(({id, reason}) => ce('li', null, `Rejected ${id}: ${reason}`)))
+                        : '');
+  }
+  return ce('details', null, ce('summary', null, 'Backup'),
+            ce('p', null, ce('button', {onClick: exportJson}, 'Export'),
+               ce('button', {onClick: exportCsv}, 'Export CSV'), ' Import: ',
+               ce('input', {
+                 type: 'file',
+                 accept: '.json,application/json',
+                 onChange: e => e.target.files && e.target.files[0] && importJson(e.target.files[0])
+               })),
+            result);
+}
+
+const BULK_KINDS: [string, FactType|undefined][] = [
+  ['Everything on this page', undefined],
+  ['Sentences', FactType.Sentence],
+  ['Vocab', FactType.Vocab],
+  ['Particles', FactType.Particle],
+  ['Conjugated phrases', FactType.Conjugated],
+];
+// Learn or unlearn every fact on the page (or every one of a kind), and pick how new memories start out
+function BulkLearn(props: PageState) {
+  const [date, setDate] = useState('');
+  const [days, setDays] = useState('');
+  const [message, setMessage] = useState('');
+
+  const setOptions = (date: string, days: string) => {
+    setDate(date);
+    setDays(days);
+    const options: LearnOptions = {};
+    if (date) { options.date = new Date(date + 'T00:00'); }  // midnight, local time
+    if (parseFloat(days) > 0) { options.halflife = parseFloat(days) * 24; }
+    const action: SetLearnOptionsAction = {type: ActionType.setLearnOptions, options};
+    pageStore.dispatch(action);
+  };
+  const run = async (keys: string[], learn: boolean) => {
+    const n = learn ? await learnUnlearnMany(keys, true) : await unlearnMany(keys);
+    setMessage(`${learn ? 'Learned' : 'Unlearned'} ${plural(n, 'fact')}.`);
+  };
+
+  const rows = BULK_KINDS.map(([name, factType]) => {
+    const keys = Object.keys(props.facts).filter(key => !factType || props.facts[key].factType === factType);
+    if (keys.length === 0) { return ''; }
+    const learned = keys.filter(key => props.memories[key] && props.memories[key].ebisu).length;
+    const learnAll = ce('button', {disabled: learned === keys.length, onClick: e => run(keys, true)}, 'Learn all');
+    const unlearnAll = ce('button', {disabled: learned === 0, onClick: e => run(keys, false)}, 'Unlearn all');
+    return ce('li', null, `${name}: ${learned} of ${keys.length} learned `, learnAll, unlearnAll);
+  });
+  const options = ce(
+      'p', null, 'Newly-learned facts were last seen on ',
+      ce('input', {type: 'date', value: date, onChange: e => setOptions(e.target.value, days)}),
+      ' (blank for now) with a half-life of ',
+      ce('input', {type: 'number', min: 0, step: 'any', value: days, onChange: e => setOptions(date, e.target.value)}),
+      ' days (blank for 30 minutes), for material you already know.');
+  return ce('details', null, ce('summary', null, 'Learn in bulk'), options, ce('ul', null, ...rows),
+            message ? ce('p', null, message) : '');
+}
+
 function mapStateToProps(state: PageState) { return {...state}; }
 const QuizContainer = connect(mapStateToProps, {})(Quiz);
-ReactDOM.render(ce(Provider, {store: pageStore}, ce(QuizContainer, null)), document.querySelector('#quiz-app'));
+const BulkLearnContainer = connect(mapStateToProps, {})(BulkLearn);
+ReactDOM.render(ce(Fragment, null, ce(Sync), ce(Backup),
+                   ce(Provider, {store: pageStore},
+                      ce(Fragment, null, ce(BulkLearnContainer, null), ce(QuizContainer, null)))),
+                document.querySelector('#quiz-app'));
@@ -0,0 +1,48 @@
+import test from 'tape';
+
+import {editDistance, gradeAnswer, gradeAnswers, withoutPunctuation} from './grading';
+
+test('correct answers', t => {
+  t.deepEqual(gradeAnswer(['すこし'], 'すこし'), {grade: 'correct', expected: 'すこし'});
+  t.deepEqual(gradeAnswer(['らーめん'], 'ラーメン'), {grade: 'correct', expected: 'らーめん'}, 'katakana is fine');
+  t.deepEqual(gradeAnswer(['いぬ', 'けん'], ' け ん '), {grade: 'correct', expected: 'けん'}, 'any acceptable answer');
+  t.end();
+});
+
+test('near misses', t => {
+  const reason = (expected: string, actual: string) => gradeAnswer([expected], actual).reason;
+  t.equal(reason('きって', 'きつて'), 'small kana');
+  t.equal(reason('きって', 'きて'), 'small kana', 'missing っ');
+  t.equal(reason('らあめん', 'らめん'), 'long vowel');
+  t.equal(reason('とうきょう', 'ときょ'), 'long vowel');
+  t.equal(reason('ねこ', 'こね'), 'wrong order');
+  t.equal(reason('すこし', 'すこす'), 'typo');
+  t.end();
+});
+
+test('wrong answers', t => {
+  t.equal(gradeAnswer(['は'], 'が').grade, 'wrong', 'a one-kana typo is a different particle');
+  t.equal(gradeAnswer(['あさ'], 'さ').grade, 'wrong', 'a leading あ is not a long vowel');
+  t.equal(gradeAnswer(['あいさつ'], 'いさつ').grade, 'nearMiss', 'but a missing kana is still a typo');
+  t.deepEqual(gradeAnswer(['いぬ', 'けん'], 'ねこ'), {grade: 'wrong', expected: 'いぬ'});
+  t.end();
+});
+
+test('answers that could be read several ways', t => {
+  t.deepEqual(gradeAnswers(['おおきい'], ['おうきい', 'おおきい']),
+              {actual: 'おおきい', grading: {grade: 'correct', expected: 'おおきい'}});
+  t.equal(gradeAnswers(['とおり'], ['とうり', 'とおり']).grading.grade, 'correct');
+  t.deepEqual(gradeAnswers(['おおさか'], ['おうさか', 'おおさ']).grading,
+              {grade: 'nearMiss', expected: 'おおさか', reason: 'long vowel'}, 'the best grade');
+  t.deepEqual(gradeAnswers(['いぬ'], ['ねこう', 'ねこお']), {actual: 'ねこう', grading: {grade: 'wrong', expected: 'いぬ'}},
+              'the first if none is better');
+  t.end();
+});
+
+test('helpers', t => {
+  t.equal(editDistance('すこし', 'すこし'), 0);
+  t.equal(editDistance('すこし', 'すし'), 1);
+  t.equal(editDistance('', 'ねこ'), 2);
+  t.equal(withoutPunctuation('「犬」だ、ね。本当？'), '犬だね本当');
+  t.end();
+});
@@ -0,0 +1,108 @@
+import {kata2hira} from 'curtiz-utils';
+
+export type Grade = 'correct'|'nearMiss'|'wrong';
+export interface Grading {
+  grade: Grade;
+  expected: string;  // the acceptable answer `actual` was closest to
+  reason?: string;   // for near misses, what was probably wrong
+}
+
+const SMALL_TO_LARGE: Record<string, string> = {
+  'ぁ': 'あ',
+  'ぃ': 'い',
+  'ぅ': 'う',
+  'ぇ': 'え',
+  'ぉ': 'お',
+  'っ': 'つ',
+  'ゃ': 'や',
+  'ゅ': 'ゆ',
+  'ょ': 'よ',
+  'ゎ': 'わ',
+};
+const VOWEL_ROWS = [
+  'あかがさざただなはばぱまやらわゃぁ',
+  'いきぎしじちぢにひびぴみりぃ',
+  'うくぐすずつづぬふぶぷむゆるゅぅ',
+  'えけげせぜてでねへべぺめれぇ',
+  'おこごそぞとどのほぼぽもよろをょぉ',
+];
+const VOWELS = 'あいうえお';
+function vowelOf(kana: string): string {
+  if (!kana) { return ''; }  // every row "includes" ''
+  const row = VOWEL_ROWS.findIndex(row => row.includes(kana));
+  return row >= 0 ? VOWELS[row] : '';
+}
+
+function normalize(s: string): string { return kata2hira(s).replace(/\s/g, ''); }
+// Sentences' punctuation, which typed sentences needn't match
+export function withoutPunctuation(s: string): string { return s.replace(/[、。，．・！？!?,.「」『』（）()…]/g, ''); }
+
+/**
+Removes long vowel marks and the vowels that lengthen the one before (ああ, いい, うう, ええ/えい, おお/おう), so that
+e.g. `らあめん`, `らーめん` and `らめん` all look the same.
+*/
+function collapseLongVowels(s: string): string {
+  let ret = '';
+  for (const c of s) {
+    const prev = vowelOf(ret[ret.length - 1] || '');
+    const lengthens = c === 'ー' || (prev && (c === prev || (prev === 'え' && c === 'い') || (prev === 'お' && c === 'う')));
+    if (!lengthens) { ret += c; }
+  }
+  return ret;
+}
+
+export function editDistance(a: string, b: string): number {
+  const x = Array.from(a);
+  const y = Array.from(b);
+  let prev = Array.from(Array(y.length + 1), (_, j) => j);
+  for (let i = 1; i <= x.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= y.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[y.length];
+}
+
+function sorted(s: string): string { return Array.from(s).sort().join(''); }
+
+// Why `actual` is almost `expected` (both normalized), or '' if it isn't
+function nearMissReason(expected: string, actual: string): string {
+  const large = (s: string) => Array.from(s, c => SMALL_TO_LARGE[c] || c).join('');
+  if (large(expected) === large(actual) || expected.replace(/っ/g, '') === actual.replace(/っ/g, '')) {
+    return 'small kana';
+  }
+  if (collapseLongVowels(expected) === collapseLongVowels(actual)) { return 'long vowel'; }
+  if (expected.length > 1 && sorted(expected) === sorted(actual)) { return 'wrong order'; }
+  // a single typo in a one- or two-kana answer (e.g., a particle) is just a different answer
+  if (Array.from(expected).length >= 3 && editDistance(expected, actual) === 1) { return 'typo'; }
+  return '';
+}
+
+/**
+Grades a typed answer against every acceptable answer (katakana and whitespace don't matter). It's a near miss if it
+differs from one only by small kana (or a missing っ), long vowels (ー vs おう, etc.), the order of its kana, or one typo.
+*/
+export function gradeAnswer(acceptable: string[], actual: string): Grading {
+  const answer = normalize(actual);
+  const expecteds = acceptable.map(normalize);
+  const exact = expecteds.find(e => e === answer);
+  if (typeof exact === 'string') { return {grade: 'correct', expected: exact}; }
+  for (const expected of expecteds) {
+    const reason = nearMissReason(expected, answer);
+    if (reason) { return {grade: 'nearMiss', expected, reason}; }
+  }
+  return {grade: 'wrong', expected: expecteds[0] || ''};
+}
+
+const GRADE_ORDER: Grade[] = ['correct', 'nearMiss', 'wrong'];
+/**
+Grades each way a typed answer could be read (see `romajiToHiraganas`: `tōri` is とうり or とおり) and returns the best,
+with the reading it was for.
+*/
+export function gradeAnswers(acceptable: string[], actuals: string[]): {actual: string, grading: Grading} {
+  const graded = actuals.map(actual => ({actual, grading: gradeAnswer(acceptable, actual)}));
+  const rank = (o: typeof graded[0]) => GRADE_ORDER.indexOf(o.grading.grade);
+  return graded.reduce((best, o) => rank(o) < rank(best) ? o : best);
+}
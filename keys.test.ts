@@ -0,0 +1,107 @@
+import PouchDB from 'pouchdb';
+import test from 'tape';
+
+import {
+  formatLegacyModelKey,
+  formatModelKey,
+  jmdictId,
+  ModelKey,
+  modelKeyGroup,
+  parseModelKey,
+  renameMemories,
+  upgradeLegacyModelKey
+} from './keys';
+import {Memory, QuizEvent} from './memory';
+
+PouchDB.plugin(require('pouchdb-adapter-memory'));
+
+test('keys round-trip, separators and all', t => {
+  const keys: ModelKey[] = [
+    {group: ['犬'], kind: 'meaning'},
+    {group: ['良い', 'よい'], kind: 'reading'},
+    {group: [], jmdict: 1605820, kind: 'meaning'},
+    {group: ['a/b', 'c,d', 'e_f', 'g#h', '50%'], kind: 'particle', detail: ['x_y', '/', 'z'], occurrence: 3},
+    {group: ['食べた'], kind: 'conjugated', detail: ['食べ_た#2']},
+  ];
+  for (const key of keys) { t.deepEqual(parseModelKey(formatModelKey(key)), key, formatModelKey(key)); }
+  t.equal(formatModelKey(keys[3]), 'model/a%2Fb,c%2Cd,e%5Ff,g%23h,50%25/particle/x%5Fy_%2F_z#3');
+  t.equal(formatModelKey(keys[2]), 'model/#1605820/meaning', 'JMdict ids are the group');
+  t.equal(formatModelKey({...keys[0], occurrence: 1}), 'model/犬/meaning', 'first occurrences are unnumbered');
+  t.equal(parseModelKey('model/犬'), undefined);
+  t.equal(parseModelKey('quiz/2020'), undefined);
+  t.end();
+});
+
+test('helpers', t => {
+  t.equal(modelKeyGroup('model/犬が好き/particle/犬_が_好き'), 'model/犬が好き/');
+  t.equal(modelKeyGroup('model/#1605820/meaning'), 'model/#1605820/');
+  t.equal(jmdictId('good #1605820'), 1605820);
+  t.equal(jmdictId('good'), undefined);
+  t.end();
+});
+
+test('legacy keys', t => {
+  const key: ModelKey = {group: ['a/b', '50%'], kind: 'particle', detail: ['x', 'y', 'z'], occurrence: 2};
+  t.equal(formatLegacyModelKey(key), 'model/a/b,50%/particle/x_y_z#2', 'legacy keys were ambiguous');
+
+  t.equal(upgradeLegacyModelKey('model/犬/meaning'), 'model/犬/meaning', 'most keys are unchanged');
+  t.equal(upgradeLegacyModelKey('model/100%だ/meaning'), 'model/100%25だ/meaning');
+  t.equal(upgradeLegacyModelKey('model/犬が好き/particle/犬_が_好き#2'), 'model/犬が好き/particle/犬_が_好き#2');
+  t.equal(upgradeLegacyModelKey('model/食べた/conjugated/食べ_た'), 'model/食べた/conjugated/食べ%5Fた',
+          'only particles have three-part details');
+  t.equal(upgradeLegacyModelKey('not a key'), 'not a key');
+  t.end();
+});
+
+const memory = (lastSeen: string): Memory => ({version: '1', ebisu: [3, 3, 1], lastSeen});
+const event = (modelKey: string): QuizEvent => ({
+  version: '1',
+  modelKey,
+  active: true,
+  date: '2020-06-01T00:00:00.000Z',
+  result: true,
+  newEbisu: [3, 3, 1],
+  oldEbisu: [3, 3, 1],
+  lastSeen: '2020-01-01T00:00:00.000Z',
+  extra: {}
+});
+
+test('renaming memories', async t => {
+  const db = new PouchDB('keys-test', {adapter: 'memory'});
+  await db.bulkDocs([
+    {_id: 'model/a/meaning', ...memory('2020-01-01')},
+    {_id: 'model/b/meaning', ...memory('2020-03-01')},
+    {_id: 'model/c/meaning', ...memory('2020-02-01')},
+    {_id: 'model/new/meaning', ...memory('2020-02-15')},
+    {_id: 'model/d/meaning', ...memory('2020-01-01')},
+    {_id: 'model/e/meaning', ...memory('2020-01-01')},
+    {_id: 'quiz/1', ...event('model/a/meaning')},
+    {_id: 'quiz/2', ...event('model/d/meaning')},
+  ]);
+  const renames = new Map([
+    ['model/a/meaning', 'model/new/meaning'],
+    ['model/b/meaning', 'model/new/meaning'],
+    ['model/c/meaning', 'model/new/meaning'],
+    ['model/d/meaning', 'model/d2/meaning'],
+    ['model/e/meaning', 'model/e/meaning'],
+    ['model/missing/meaning', 'model/f/meaning'],
+  ]);
+  await renameMemories(db, renames, (key, m) => ({...m, source: {fact: {}, url: key, anchor: ''}}));
+
+  const res = await db.allDocs({startkey: 'model/', endkey: 'model/\ufff0', include_docs: true});
+  const docs: Record<string, Memory> = {};
+  for (const row of res.rows) { docs[row.id] = row.doc as unknown as Memory; }
+  t.deepEqual(Object.keys(docs), ['model/d2/meaning', 'model/e/meaning', 'model/new/meaning']);
+  t.equal(docs['model/new/meaning'].lastSeen, '2020-03-01', 'the most recently seen of several old keys wins');
+  t.equal(docs['model/d2/meaning'].lastSeen, '2020-01-01');
+  t.deepEqual([docs['model/new/meaning'], docs['model/d2/meaning'], docs['model/e/meaning']].map(o => o.source!.url),
+              ['model/new/meaning', 'model/d2/meaning', 'model/e/meaning'], 'updated on the way');
+
+  const events = await Promise.all(['quiz/1', 'quiz/2'].map(id => db.get(id)));
+  t.deepEqual(events.map(doc => (doc as unknown as QuizEvent).modelKey), ['model/new/meaning', 'model/d2/meaning'],
+              'events follow their memories');
+
+  await renameMemories(db, new Map([['model/a/meaning', 'model/new/meaning']]));
+  t.equal((await db.get('model/new/meaning') as unknown as Memory).lastSeen, '2020-03-01', 'again does nothing');
+  await db.destroy();
+});
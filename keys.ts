@@ -0,0 +1,152 @@
+import {LogEvent, Memory} from './memory';
+
+type Db = PouchDB.Database<{}>;
+
+/**
+What a memory's `model/...` key encodes. Memories with the same group (a sentence and its particles, say, or a vocab's
+meaning and reading) are reviewed together.
+*/
+export interface ModelKey {
+  group: string[];      // the sentence's text, or a vocab's spellings
+  jmdict?: number;      // a vocab's JMdict id: if given, it's the group, so all spellings share memories
+  kind: string;         // `meaning`, `reading`, `production`, `particle`, `conjugated`
+  detail?: string[];    // particle: left, cloze and right; conjugated: the expected text
+  occurrence?: number;  // for particles and conjugated phrases repeated in a sentence, which one
+}
+
+// Characters that separate parts of a key. Escaped like URLs (with `%`) so keys stay readable.
+const SPECIAL = /[%/#_,]/g;
+function escape(s: string): string {
+  return s.replace(SPECIAL, c => '%' + c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0'));
+}
+function unescape(s: string): string {
+  return s.replace(/%([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/** `model/<group>/<kind>[/<detail>][#<occurrence>]`, e.g., `model/良い,よい/meaning` or `model/#1605820/reading` */
+export function formatModelKey(key: ModelKey): string {
+  const group = key.jmdict ? `#${key.jmdict}` : key.group.map(escape).join(',');
+  return format(group, key, s => s.map(escape).join('_'));
+}
+/** Keys as they were before they were escaped and could use JMdict ids, to find memories learned back then */
+export function formatLegacyModelKey(key: ModelKey): string {
+  return format(key.group.join(','), key, s => s.join('_'));
+}
+function format(group: string, key: ModelKey, detail: (detail: string[]) => string): string {
+  const nth = key.occurrence && key.occurrence > 1 ? `#${key.occurrence}` : '';
+  return `model/${group}/${key.kind}${key.detail ? '/' + detail(key.detail) : ''}${nth}`;
+}
+
+export function parseModelKey(s: string): ModelKey|undefined {
+  const match = s.match(/^model\/([^/]+)\/([^/#]+)(?:\/([^/#]*))?(?:#(\d+))?$/);
+  if (!match) { return undefined; }
+  const [, group, kind, detail, occurrence] = match;
+  const ret: ModelKey = {group: [], kind};
+  if (group.startsWith('#')) {
+    ret.jmdict = parseInt(group.slice(1));
+  } else {
+    ret.group = group.split(',').map(unescape);
+  }
+  if (typeof detail === 'string') { ret.detail = detail.split('_').map(unescape); }
+  if (occurrence) { ret.occurrence = parseInt(occurrence); }
+  return ret;
+}
+/**
+Best guess at what a legacy key meant, without the fact it was made from: text couldn't contain `/` but could contain
+anything else (commas always separated vocab spellings).
+*/
+function parseLegacyModelKey(s: string): ModelKey|undefined {
+  const [model, group, kind, ...rest] = s.split('/');
+  if (model !== 'model' || !group || !kind) { return undefined; }
+  const ret: ModelKey = {group: group.split(','), kind};
+  if (rest.length) {
+    let detail = rest.join('/');
+    const match = detail.match(/#(\d+)$/);
+    if (match) {
+      ret.occurrence = parseInt(match[1]);
+      detail = detail.slice(0, -match[0].length);
+    }
+    const parts = detail.split('_');
+    ret.detail = kind === 'particle' && parts.length === 3 ? parts : [detail];
+  }
+  return ret;
+}
+export function upgradeLegacyModelKey(s: string): string {
+  const key = parseLegacyModelKey(s);
+  return key ? formatModelKey(key) : s;
+}
+
+/** The `model/<group>/` prefix shared by all memories reviewed together with `key`'s */
+export function modelKeyGroup(key: string): string { return key.slice(0, key.indexOf('/', 'model/'.length) + 1); }
+
+export function jmdictId(definition: string): number|undefined {
+  const match = definition.match(/#(\d+)\s*$/);
+  return match ? parseInt(match[1]) : undefined;
+}
+
+const SCHEME_DOC = '_local/kaisei-keys';
+/** Bump when keys change format, along with a migration */
+export const KEY_SCHEME_VERSION = 2;
+export async function getKeySchemeVersion(db: Db): Promise<number> {
+  try {
+    return (await db.get(SCHEME_DOC) as unknown as {version: number}).version;
+  } catch {
+    return 1;  // before this doc existed
+  }
+}
+export async function setKeySchemeVersion(db: Db, version = KEY_SCHEME_VERSION) {
+  // `_local` docs don't sync, which is what we want: each device migrates its own docs (and idempotently)
+  await db.upsert(SCHEME_DOC, old => ({...old, version}));
+}
+
+/**
+Moves memories from old keys to new ones (`update` can also edit them on the way) and points their quiz events at the
+new keys. If a memory already exists under its new key, the more recently seen of the two is kept.
+*/
+export async function renameMemories(db: Db, renames: Map<string, string>, update = (key: string, m: Memory) => m) {
+  if (renames.size === 0) { return; }
+  const oldKeys = Array.from(renames.keys());
+  const newKeys = Array.from(renames.values());
+  const [olds, news] = await Promise.all([oldKeys, newKeys].map(keys => db.allDocs({keys, include_docs: true})));
+  const revs: Map<string, string> = new Map();
+  const winners: Map<string, Memory> = new Map();
+  for (const row of news.rows) {
+    if ('doc' in row && row.doc) {
+      revs.set(row.id, row.doc._rev);
+      winners.set(row.id, row.doc as unknown as Memory);
+    }
+  }
+
+  const docs: {}[] = [];
+  const moved: Set<string> = new Set();
+  const changed: Set<string> = new Set();
+  olds.rows.forEach((row, i) => {
+    if (!('doc' in row && row.doc)) { return; }
+    const {_id, _rev, ...memory} = row.doc as unknown as Memory & PouchDB.Core.IdMeta & PouchDB.Core.GetMeta;
+    const newKey = newKeys[i];
+    if (newKey === _id) {
+      docs.push({...update(newKey, memory), _id, _rev});
+      return;
+    }
+    // several old keys might map to the same new key, so pick winners before writing any
+    const winner = winners.get(newKey);
+    if (!winner || winner.lastSeen < memory.lastSeen) {
+      winners.set(newKey, memory);
+      changed.add(newKey);
+    }
+    docs.push({_id, _rev, _deleted: true});
+    moved.add(_id);
+  });
+  for (const newKey of changed) {
+    const rev = revs.get(newKey);
+    docs.push({...update(newKey, winners.get(newKey) as Memory), _id: newKey, ...(rev ? {_rev: rev} : {})});
+  }
+  if (docs.length === 0) { return; }
+
+  const events = await db.allDocs({startkey: 'quiz/', endkey: 'quiz/\ufff0', include_docs: true});
+  for (const row of events.rows) {
+    const event = row.doc as unknown as LogEvent & PouchDB.Core.IdMeta & PouchDB.Core.GetMeta;
+    if (moved.has(event.modelKey)) { docs.push({...event, modelKey: renames.get(event.modelKey)}); }
+  }
+  await db.bulkDocs(docs);
+}
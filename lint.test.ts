@@ -0,0 +1,70 @@
+import test from 'tape';
+
+import {describeElement, findQuizzables, lint} from './lint';
+import {parseHtml} from './parser';
+import {sentence} from './test-fixtures';
+
+const check = (html: string) => lint(findQuizzables(parseHtml(html)))
+                                    .map(p => [describeElement(p.element), p.message, p.fatal, p.element.start]);
+
+test('a good page has no problems', t => {
+  t.deepEqual(check(sentence('犬が好き', `
+    <li class="translation en">I like dogs</li>
+    <li class="quizzable particle">が</li>
+    <li class="quizzable vocab">犬「いぬ」：dog #1</li>`) +
+                    sentence('犬だ', `
+    <li class="translation en">It's a dog</li>
+    <li class="quizzable vocab">犬「いぬ」：dog #1</li>`)),
+              [], 'vocab in several sentences share memories on purpose');
+  t.end();
+});
+
+test('every unparseable fact is reported, with where it is', t => {
+  const html = sentence('犬が好き', `
+    <li class="translation en">I like dogs</li>
+    <li class="quizzable vocab">犬「いぬ」 dog</li>
+    <li class="quizzable vocab">「」：nothing</li>
+    <li class="quizzable particle">犬/が/好/き</li>
+    <li class="quizzable particle">犬//好</li>
+    <li class="quizzable conjugated">：好く</li>
+    <li class="quizzable conjugated">好き：好く：すく</li>
+    <li class="quizzable kanji">犬</li>`);
+  const problems = check(html);
+  t.deepEqual(problems.map(p => p.slice(0, 3)), [
+    ['<li class="quizzable vocab">', 'unable to split vocab: 犬「いぬ」 dog', true],
+    ['<li class="quizzable vocab">', 'vocab has no spelling: 「」：nothing', true],
+    ['<li class="quizzable particle">', 'unable to split: 犬/が/好/き', true],
+    ['<li class="quizzable particle">', 'particle has no cloze: 犬//好', true],
+    ['<li class="quizzable conjugated">', 'conjugated has no phrase: ：好く', true],
+    ['<li class="quizzable conjugated">', 'unable to split conjugated: 好き：好く：すく', true],
+    ['<li class="quizzable kanji">', 'unknown quizzable <li class="quizzable kanji">: 犬', true],
+  ]);
+  t.equal(html.slice(problems[0][3] as number).split('\n')[0], '<li class="quizzable vocab">犬「いぬ」 dog</li>');
+  t.end();
+});
+
+test('warnings about facts that do parse', t => {
+  const problems = check(sentence('犬が好き', `
+    <li class="quizzable particle">を</li>
+    <li class="quizzable vocab">犬「いぬ」：dog</li>
+    <li class="quizzable vocab">犬「いぬ」：dog</li>`) +
+                         sentence('犬が好き', '<li class="translation en"></li>'));
+  t.deepEqual(problems.map(p => p.slice(0, 3)), [
+    ['<span class="quizzable sentence">', 'sentence has no translation', false],
+    ['<li class="quizzable particle">', 'particle 「を」 (occurrence 1) not found in 「犬が好き」', false],
+    ['<li class="quizzable vocab">', 'same key as an earlier fact: model/犬,いぬ/meaning, model/犬,いぬ/reading', false],
+    ['<li class="translation en">', 'empty translation', false],
+    ['<span class="quizzable sentence">', 'same key as an earlier fact: model/犬が好き/meaning, model/犬が好き/reading',
+     false],
+  ]);
+  t.end();
+});
+
+test('one bad details leaves the others alone', t => {
+  const trees = findQuizzables(parseHtml(sentence('犬', '<li class="quizzable particle">a/b</li>') +
+                                         sentence('猫', '<li class="translation en">cat</li>')));
+  const problems = lint(trees);
+  t.equal(problems.length, 1);
+  t.equal(problems[0].details, trees[0]);
+  t.end();
+});
@@ -0,0 +1,124 @@
+// Finds everything wrong with a page's quizzables, so one typo doesn't stop the rest of the page from being quizzed.
+// Used by `setup` to show problems on the page, and from the command line: `node lint.js page.html ...`.
+import {readFileSync} from 'fs';
+
+import {
+  classes,
+  clozeWarning,
+  elementToFact,
+  FactType,
+  findAll,
+  hasClasses,
+  HtmlElement,
+  HtmlNode,
+  parseHtml,
+  parseQuizzable,
+  textContent
+} from './parser';
+
+export interface Problem {
+  details: HtmlElement;  // the `<details class="quizzable">` it's in
+  element: HtmlElement;  // what to fix: an `<li>`, the sentence, etc.
+  message: string;
+  fatal: boolean;  // if so, `parseQuizzable` throws on `details`, so none of its facts can be quizzed
+}
+
+export function findQuizzables(nodes: HtmlNode[]): HtmlElement[] {
+  return findAll(nodes, elt => elt.name === 'details' && hasClasses(elt, 'quizzable'));
+}
+
+/** Enough of an element's opening tag to find it by, e.g., `<li class="quizzable vocab">` */
+export function describeElement(elt: HtmlElement): string {
+  const cls = classes(elt);
+  return `<${elt.name}${cls.length ? ` class="${cls.join(' ')}"` : ''}>`;
+}
+
+interface KeyedElement {
+  element: HtmlElement;
+  keys: string[];
+  shared: boolean;  // vocab: the same word in several sentences shares memories, which is fine
+}
+function lintDetails(details: HtmlElement): {problems: Problem[], keyed: KeyedElement[]} {
+  const problems: Problem[] = [];
+  const problem = (element: HtmlElement, message: string, fatal = false) =>
+      problems.push({details, element, message, fatal});
+
+  const sentences = findAll(details.children, elt => hasClasses(elt, 'quizzable', 'sentence'));
+  sentences.slice(1).forEach(elt => problem(elt, 'more than one sentence: only the first will be quizzed'));
+  const elements = findAll(details.children, elt => hasClasses(elt, 'quizzable') && !hasClasses(elt, 'sentence'));
+  for (const elt of elements) {
+    try {
+      elementToFact(elt);
+    } catch (e) { problem(elt, e.message, true); }
+  }
+  if (problems.some(p => p.fatal)) { return {problems, keyed: []}; }
+
+  // every element parses, so this won't throw
+  const quizzable = parseQuizzable(details);
+  if (!quizzable) { return {problems, keyed: []}; }
+  if (quizzable.type === 'glossary') {
+    const keyed = quizzable.facts.map(
+        (fact, i) => ({element: elements[i], keys: fact.keys, shared: fact.factType === FactType.Vocab}));
+    return {problems, keyed};
+  }
+
+  const {fact} = quizzable;
+  const [sentence] = sentences;
+  const translations = findAll(details.children, elt => hasClasses(elt, 'translation'));
+  if (translations.length === 0) { problem(sentence, 'sentence has no translation'); }
+  translations.filter(elt => !textContent(elt).trim()).forEach(elt => problem(elt, 'empty translation'));
+  fact.subfacts.forEach((o, i) => {
+    const warning = clozeWarning(o, fact.furigana);
+    if (warning) { problem(elements[i], warning); }
+  });
+  const keyed = [{element: sentence, keys: fact.keys, shared: false}].concat(
+      fact.subfacts.map((o, i) => ({element: elements[i], keys: o.keys, shared: o.factType === FactType.Vocab})));
+  return {problems, keyed};
+}
+
+/**
+Every problem with a page's `<details class="quizzable">`: facts that can't be parsed, particles and conjugated phrases
+that aren't in their sentence, sentences without translations, and facts whose keys collide (so they'd share memories).
+*/
+export function lint(detailses: HtmlElement[]): Problem[] {
+  const problems: Problem[] = [];
+  const seen: Set<string> = new Set();
+  for (const details of detailses) {
+    const {problems: found, keyed} = lintDetails(details);
+    problems.push(...found);
+    const here: Set<string> = new Set();
+    for (const {element, keys, shared} of keyed) {
+      const dupes = keys.filter(key => here.has(key) || (!shared && seen.has(key)));
+      if (dupes.length) {
+        problems.push({details, element, message: 'same key as an earlier fact: ' + dupes.join(', '), fatal: false});
+      }
+      keys.forEach(key => here.add(key));
+    }
+    here.forEach(key => seen.add(key));
+  }
+  return problems;
+}
+
+function lineColumn(text: string, offset: number): {line: number, column: number} {
+  const lines = text.slice(0, offset).split('\n');
+  return {line: lines.length, column: lines[lines.length - 1].length + 1};
+}
+
+function main(files: string[]) {
+  if (files.length === 0) {
+    console.error('usage: node lint.js page.html ...');
+    process.exitCode = 2;
+    return;
+  }
+  let count = 0;
+  for (const file of files) {
+    const html = readFileSync(file, 'utf8');
+    for (const {element, message, fatal} of lint(findQuizzables(parseHtml(html)))) {
+      const {line, column} = lineColumn(html, element.start || 0);
+      console.log(`${file}:${line}:${column}: ${fatal ? 'error' : 'warning'}: ${describeElement(element)} ${message}`);
+      count++;
+    }
+  }
+  if (count) { process.exitCode = 1; }
+}
+if (require.main === module) { main(process.argv.slice(2)); }
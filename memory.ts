@@ -0,0 +1,61 @@
+import * as ebisu from 'ebisu-js';
+
+import {Grade} from './grading';
+
+export type EbisuModel = ReturnType<typeof ebisu.defaultModel>;
+/** What's stored in Pouchdb under each `model/...` key */
+export interface Memory {
+  ebisu: EbisuModel;
+  lastSeen: string;
+  version: '1';
+  source?: FactSource;  // absent for memories learned before facts were saved with them
+  reviews?: number;     // active reviews: absent for memories learned before they were counted
+}
+/**
+A learned fact as parsed from its page, saved alongside its memory so it can be quizzed from any page. `F` is the
+client's `Keyed<Fact>`, which lives with the parser.
+*/
+export interface FactSource<F = {}> {
+  fact: F;
+  parent?: F;      // the sentence containing the fact, if any
+  url: string;     // the page it was learned on, without any `#hash`
+  anchor: string;  // id of the fact's element on that page
+}
+/** What's stored in Pouchdb under each `quiz/...` key, one per memory updated by a review */
+export interface QuizEvent {
+  version: '1';
+  eventType?: 'review';  // absent in events logged before there were other kinds
+  modelKey: string;
+  active: boolean;
+  date: string;
+  result: boolean;
+  newEbisu: EbisuModel;
+  oldEbisu: EbisuModel;
+  lastSeen: string;
+  // `rawResponse` is what was typed before romaji→kana. `nearMiss` is why the first attempt was almost right, if it
+  // was. `overridden` if the learner counted a typed answer graded wrong as right (a paraphrase, say).
+  extra: Partial<
+      {response: string, rawResponse: string, grade: Grade, nearMiss: string, attempts: number, overridden: boolean}>;
+  undone?: string;  // date the review was undone, if it was
+}
+/** Also stored under a `quiz/...` key, when the learner rescales a memory's half-life by hand */
+export interface RescaleEvent {
+  version: '1';
+  eventType: 'rescale';
+  modelKey: string;
+  date: string;
+  scale: number;
+  newEbisu: EbisuModel;
+  oldEbisu: EbisuModel;
+  lastSeen: string;  // unchanged by rescaling but handy to have
+}
+export type LogEvent = QuizEvent|RescaleEvent;
+
+/**
+Multiplies a model's half-life by `scale`. The half-life is proportional to the model's time parameter (for fixed
+alpha and beta), so this leaves the shape of the prior alone.
+*/
+export function rescaleModel(model: EbisuModel, scale: number): EbisuModel {
+  const [alpha, beta, t] = model;
+  return [alpha, beta, t * scale];
+}
@@ -0,0 +1,149 @@
+import test from 'tape';
+
+import {clozeWarnings, FactType, findAll, parseHtml, parseQuizzable, parseSentences} from './parser';
+import {sentence} from './test-fixtures';
+
+const details = (html: string) => findAll(parseHtml(html), elt => elt.name === 'details')[0];
+
+test('sentence with every kind of fact', t => {
+  const html = sentence('<ruby>少<rt>すこ</rt></ruby>しでも<ruby>良<rt>よ</rt></ruby>くする', `
+    <li class="translation en">Improve, even just a little</li>
+    <li class="quizzable particle">で</li>
+    <li class="quizzable particle">し/で/も</li>
+    <li class="quizzable conjugated">良くする：<ruby>良<rt>よ</rt></ruby>い ＋ する</li>
+    <li class="quizzable vocab">少し・寡し「すこし」：① small quantity #1348870</li>
+    <li class="quizzable vocab">「でも」：① but</li>`);
+  const [fact, ...rest] = parseSentences(html);
+  t.equal(rest.length, 0);
+  t.deepEqual(fact.furigana, [{ruby: '少', rt: 'すこ'}, 'しでも', {ruby: '良', rt: 'よ'}, 'くする']);
+  t.deepEqual(fact.translation, {en: 'Improve, even just a little'});
+  t.deepEqual(fact.keys, ['model/少しでも良くする/meaning', 'model/少しでも良くする/reading']);
+
+  const [particle, particle2, conjugated, vocab, kanaVocab] = fact.subfacts;
+  t.deepEqual(particle, {
+    left: '',
+    cloze: 'で',
+    right: '',
+    factType: FactType.Particle,
+    keys: ['model/少しでも良くする/particle/_で_']
+  });
+  t.deepEqual([particle2.factType === FactType.Particle && particle2.left, particle2.keys],
+              ['し', ['model/少しでも良くする/particle/し_で_も']]);
+  t.deepEqual(conjugated, {
+    expected: ['良くする'],
+    hints: [{ruby: '良', rt: 'よ'}, 'い ＋ する'],
+    factType: FactType.Conjugated,
+    keys: ['model/少しでも良くする/conjugated/良くする']
+  });
+  t.deepEqual(vocab, {
+    kanjiKana: ['少し', '寡し', 'すこし'],
+    definition: '① small quantity #1348870',
+    factType: FactType.Vocab,
+    keys: ['model/#1348870/meaning', 'model/#1348870/reading'],
+  });
+  // no kanji, so no reading quiz, and no JMdict id, so keyed by spelling
+  t.deepEqual(kanaVocab.keys, ['model/でも/meaning']);
+  t.end();
+});
+
+test('ruby edge cases', t => {
+  const [fact] = parseSentences(sentence(
+      '<ruby></ruby>a<ruby>b</ruby><ruby>漢<rp>(</rp><rt>かん</rt><rp>)</rp></ruby><ruby><rb>字</rb><rt>じ</rt></ruby>'));
+  // empty `<ruby>` disappears, `<ruby>` without `<rt>` is plain text, `<rp>` is ignored and `<rb>` is the base
+  t.deepEqual(fact.furigana, ['a', 'b', {ruby: '漢', rt: 'かん'}, {ruby: '字', rt: 'じ'}]);
+  t.end();
+});
+
+test('nested markup and entities', t => {
+  const [fact] = parseSentences(sentence('<b>猫<ruby>好<rt>す</rt></ruby></b>き &amp; <i>犬</i>',
+                                         '<li class="quizzable vocab"><b>猫</b>「ねこ」：<i>cat</i></li>'));
+  t.deepEqual(fact.furigana, ['猫', {ruby: '好', rt: 'す'}, 'き & ', '犬']);
+  const [vocab] = fact.subfacts;
+  t.deepEqual(vocab.factType === FactType.Vocab && [vocab.kanjiKana, vocab.definition], [['猫', 'ねこ'], 'cat']);
+  t.end();
+});
+
+test('conjugated without a hint', t => {
+  const [fact] = parseSentences(sentence('食べた', '<li class="quizzable conjugated">食べた</li>'));
+  const [conjugated] = fact.subfacts;
+  t.deepEqual(conjugated.factType === FactType.Conjugated && [conjugated.expected, conjugated.hints], [['食べた'], []]);
+  t.end();
+});
+
+test('repeated particles are numbered', t => {
+  const [fact] = parseSentences(sentence('私の本の表紙', `
+    <li class="quizzable particle">の</li>
+    <li class="quizzable particle">の</li>
+    <li class="quizzable particle" data-occurrence="1">の</li>`));
+  t.deepEqual(fact.subfacts.map(o => o.keys[0]), [
+    'model/私の本の表紙/particle/_の_',
+    'model/私の本の表紙/particle/_の_#2',
+    'model/私の本の表紙/particle/_の_',
+  ]);
+  t.deepEqual(clozeWarnings(fact), []);
+  t.end();
+});
+
+test('cloze warnings', t => {
+  const [fact] = parseSentences(sentence('私の本の表紙', `
+    <li class="quizzable particle">が</li>
+    <li class="quizzable particle">本/の/表</li>
+    <li class="quizzable conjugated">表紙：ひょうし</li>
+    <li class="quizzable particle" data-occurrence="3">の</li>`));
+  // two occurrences of の but only the third is asked for, so it's not ambiguous, just missing
+  t.deepEqual(clozeWarnings(fact), [
+    'particle 「が」 (occurrence 1) not found in 「私の本の表紙」',
+    'particle 「の」 (occurrence 3) not found in 「私の本の表紙」',
+  ]);
+
+  const [ambiguous] = parseSentences(sentence('私の本の表紙', '<li class="quizzable particle">の</li>'));
+  t.deepEqual(clozeWarnings(ambiguous),
+              ['particle 「の」 is ambiguous: it appears 2 times in 「私の本の表紙」, add data-occurrence to pick one']);
+  t.end();
+});
+
+test('separators in text are escaped', t => {
+  const [fact] = parseSentences(sentence('A/B_C', '<li class="quizzable particle">A/_/C</li>'));
+  t.deepEqual(fact.keys, ['model/A%2FB%5FC/meaning']);
+  t.deepEqual(fact.subfacts[0].keys, ['model/A%2FB%5FC/particle/A_%5F_C']);
+  t.end();
+});
+
+test('glossary', t => {
+  const quizzable = parseQuizzable(details(`<details class="quizzable"><summary> Words </summary><ul>
+    <li class="quizzable vocab">犬「いぬ」：dog</li>
+    <li class="quizzable particle">は</li>
+    <li class="quizzable conjugated">食べた：<ruby>食<rt>た</rt></ruby>べる</li>
+  </ul></details>`));
+  if (!quizzable || quizzable.type !== 'glossary') { throw new Error('expected a glossary'); }
+  t.equal(quizzable.title, 'Words');
+  t.deepEqual(quizzable.facts.map(o => o.keys),
+              [['model/犬,いぬ/meaning', 'model/犬,いぬ/reading'], ['model/は/particle/_は_'], ['model/食べた/conjugated/食べた']]);
+  // glossaries aren't sentences
+  t.deepEqual(parseSentences(`<details class="quizzable"><li class="quizzable vocab">犬：dog</li></details>`), []);
+  t.equal(parseQuizzable(details('<details class="quizzable"><summary>Nothing</summary></details>')), undefined);
+  t.end();
+});
+
+test('production is opt-in', t => {
+  const html = sentence('<ruby>犬<rt>いぬ</rt></ruby>だ', '<li class="translation en">A dog</li>');
+  const keys = (cls: string, options = {}) => {
+    const quizzable = parseQuizzable(details(html.replace('"quizzable"', `"${cls}"`)), options);
+    return quizzable && quizzable.type === 'sentence' ? quizzable.fact.keys : [];
+  };
+  t.deepEqual(keys('quizzable'), ['model/犬だ/meaning', 'model/犬だ/reading']);
+  t.deepEqual(keys('quizzable production'), ['model/犬だ/meaning', 'model/犬だ/reading', 'model/犬だ/production']);
+  t.deepEqual(keys('quizzable', {production: true}), keys('quizzable production'), 'or for every sentence on a page');
+  t.end();
+});
+
+test('errors', t => {
+  const parse = (item: string) => () => parseSentences(sentence('文', item));
+  t.throws(parse('<li class="quizzable vocab">犬「いぬ」 dog</li>'), /^Error: unable to split vocab: 犬「いぬ」 dog$/);
+  t.throws(parse('<li class="quizzable vocab">犬：dog：cat</li>'), /unable to split vocab/);
+  t.throws(parse('<li class="quizzable particle">a/b</li>'), /^Error: unable to split: a\/b$/);
+  t.throws(parse('<li class="quizzable particle" data-occurrence="zero">文</li>'),
+           /^Error: invalid data-occurrence: zero$/);
+  t.throws(parse('<li class="quizzable kanji">文</li>'), /^Error: unknown quizzable <li class="quizzable kanji">: 文$/);
+  t.end();
+});
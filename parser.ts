@@ -0,0 +1,412 @@
+// Finds facts in HTML. No React, Pouchdb or browser globals here, so this works in Node too (tests, build scripts).
+import {hasKanji, kata2hira} from 'curtiz-utils';
+import {ElementType, parseDOM} from 'htmlparser2';
+
+import {formatModelKey, jmdictId} from './keys';
+
+export interface Ruby {
+  ruby: string;
+  rt?: string;
+}
+export type Furigana = string|Ruby;
+
+export enum FactType {
+  Vocab = 'vocab',
+  Conjugated = 'conjugated',
+  Particle = 'particle',
+  Sentence = 'sentence',
+}
+
+interface BaseFact {
+  factType: FactType;
+}
+export interface VocabFact extends BaseFact {
+  kanjiKana: string[];
+  definition: string;
+  factType: FactType.Vocab;
+}
+
+export interface ConjugatedFact extends BaseFact {
+  expected: Furigana[];
+  hints: Furigana[];
+  occurrence?: number;  // if `expected` appears more than once in the sentence, which one (1-based)
+  factType: FactType.Conjugated;
+}
+
+export interface ParticleFact extends BaseFact {
+  left: string;
+  cloze: string;
+  right: string;
+  occurrence?: number;  // if `left+cloze+right` appears more than once in the sentence, which one (1-based)
+  factType: FactType.Particle;
+}
+
+export interface SentenceFact extends BaseFact {
+  furigana: Furigana[];
+  subfacts: (VocabFact|ParticleFact|ConjugatedFact)[];
+  translation: {[lang: string]: string};
+  production?: boolean;  // also quiz typing the sentence given its translation
+  factType: FactType.Sentence;
+}
+
+export type Fact = SentenceFact|ParticleFact|ConjugatedFact|VocabFact;
+export type Subfact = SentenceFact['subfacts'][number];
+
+/**
+Just enough of an HTML tree to find facts in. `parseHtml` makes one out of a string; in the browser, the DOM is easily
+converted to one.
+*/
+export type HtmlNode = HtmlElement|HtmlText;
+export interface HtmlElement {
+  type: 'element';
+  name: string;  // lowercase
+  attribs: Record<string, string>;
+  children: HtmlNode[];
+  start?: number;  // offsets into the HTML it was parsed from (if any) of its first and last characters
+  end?: number;
+}
+export interface HtmlText {
+  type: 'text';
+  text: string;
+}
+
+type DomNode = ReturnType<typeof parseDOM>[number];
+type DomElement = DomNode&{name: string, attribs: Record<string, string>, children: DomNode[]};
+export function parseHtml(html: string): HtmlNode[] {
+  const convert = (nodes: DomNode[]): HtmlNode[] => {
+    const ret: HtmlNode[] = [];
+    for (const node of nodes) {
+      if (ElementType.isTag(node)) {
+        const {name, attribs, children, startIndex, endIndex} = node as DomElement;
+        const elt: HtmlElement = {type: 'element', name: name.toLowerCase(), attribs, children: convert(children)};
+        if (typeof startIndex === 'number') { elt.start = startIndex; }
+        if (typeof endIndex === 'number') { elt.end = endIndex; }
+        ret.push(elt);
+      } else if (node.type === ElementType.Text) {
+        ret.push({type: 'text', text: (node as DomNode & {data: string}).data});
+      }  // comments, etc., don't matter
+    }
+    return ret;
+  };
+  return convert(parseDOM(html, {decodeEntities: true, withStartIndices: true, withEndIndices: true}));
+}
+
+export function textContent(node: HtmlNode): string {
+  return node.type === 'text' ? node.text : node.children.map(textContent).join('');
+}
+export function classes(elt: HtmlElement): string[] { return (elt.attribs.class || '').split(/\s+/).filter(s => !!s); }
+export function hasClasses(elt: HtmlElement, ...names: string[]): boolean {
+  const all = classes(elt);
+  return names.every(name => all.includes(name));
+}
+/** Every element under `nodes` (including them), depth-first, for which `predicate` is true */
+export function findAll(nodes: HtmlNode[], predicate: (elt: HtmlElement) => boolean): HtmlElement[] {
+  const ret: HtmlElement[] = [];
+  for (const node of nodes) {
+    if (node.type === 'element') {
+      if (predicate(node)) { ret.push(node); }
+      ret.push(...findAll(node.children, predicate));
+    }
+  }
+  return ret;
+}
+
+export function furiganaToRuby(v: Furigana[]): string {
+  return v.map(o => typeof o === 'string' ? o : o.ruby).join('').trim();
+}
+export function furiganaToRt(v: Furigana[]): string {
+  return v.map(o => typeof o === 'string' ? o : o.rt).join('').trim();
+}
+export function furiganaToHiragana(v: Furigana[]): string { return kata2hira(furiganaToRt(v)); }
+// Like `furiganaToRuby` but without trimming, so indexes into it line up with `furigana`
+export function furiganaToPlain(v: Furigana[]): string {
+  return v.map(o => typeof o === 'string' ? o : o.ruby).join('');
+}
+
+function rubyNodeToFurigana(node: HtmlElement): Furigana {
+  if (node.name === 'ruby') {
+    let rt = '';
+    let ruby = '';
+    for (const sub of node.children) {
+      if (sub.type === 'element' && sub.name === 'rt') {
+        rt += textContent(sub);
+      } else if (!(sub.type === 'element' && sub.name === 'rp')) {
+        ruby += textContent(sub);  // text or, e.g., `<rb>`
+      }
+    }
+    return rt ? {ruby, rt} : ruby;
+    // if this was just `<ruby>bla</ruby>` with no `rt` tag, treat this as plain
+    // text. We shouldn't force everyone upstream to assume `Ruby` objects might
+    // be missing `rt`.
+  }
+  throw new Error('Not a RUBY node');
+}
+
+/** Text and `<ruby>`, looking inside other markup (`<b>`, `<span>`, etc.) for more of the same */
+export function nodesToFurigana(nodes: HtmlNode[]): Furigana[] {
+  const ret: Furigana[] = [];
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      ret.push(node.text);
+    } else if (node.name === 'ruby') {
+      ret.push(rubyNodeToFurigana(node));
+    } else {
+      ret.push(...nodesToFurigana(node.children));
+    }
+  }
+  return ret.filter(o => o !== '');  // e.g., from `<ruby></ruby>`
+}
+
+// 遣る・行る「やる」：① to do/to undertake/to perform/to play (a game)/to study
+function textToVocab(s: string): VocabFact {
+  const split = s.split('：');
+  if (split.length !== 2) { throw new Error('unable to split vocab: ' + s); }
+  const kanjiKana = split[0].replace('」', '').replace('「', '・').split('・').filter(s => !!s);  // leading ・
+  const definition = split[1];
+  if (kanjiKana.length === 0) { throw new Error('vocab has no spelling: ' + s); }
+  return {kanjiKana, definition, factType: FactType.Vocab};
+}
+
+function textToConjugated(elt: HtmlElement): ConjugatedFact {
+  const expected: Furigana[] = [];
+  const hints: Furigana[] = [];
+
+  const BREAK = '：';
+  let splitFound = false;
+  const contents = nodesToFurigana(elt.children);
+  for (const text of contents) {
+    if (typeof text === 'string') {
+      if (splitFound) {
+        hints.push(text);
+      } else if (text.includes(BREAK)) {
+        if (text.split(BREAK).length > 2) { throw new Error('unable to split conjugated: ' + textContent(elt)); }
+        // split just now found
+        splitFound = true;
+        const [pre, post] = text.split(BREAK);
+        if (pre) { expected.push(pre); }
+        if (post) { hints.push(post); }
+      } else {
+        // split not found
+        expected.push(text);
+      }
+    } else {
+      // text is furigana
+      (splitFound ? hints : expected).push(text);
+    }
+  }
+  if (!furiganaToRuby(expected)) { throw new Error('conjugated has no phrase: ' + textContent(elt)); }
+  return {expected, hints, factType: FactType.Conjugated};
+}
+
+function textToParticle(s: string): ParticleFact {
+  const split = s.split('/');
+  let fact: ParticleFact;
+  if (split.length === 1) {
+    fact = {left: '', cloze: split[0], right: '', factType: FactType.Particle};
+  } else if (split.length === 3) {
+    fact = {left: split[0], cloze: split[1], right: split[2], factType: FactType.Particle};
+  } else {
+    throw new Error('unable to split: ' + s);
+  }
+  if (!fact.cloze.trim()) { throw new Error('particle has no cloze: ' + s); }
+  return fact;
+}
+
+// `<li class="quizzable particle" data-occurrence="2">` picks the second of several identical particles in a sentence
+function elementToOccurrence(elt: HtmlElement): {occurrence?: number} {
+  const attr = elt.attribs['data-occurrence'];
+  if (typeof attr !== 'string') { return {}; }
+  const occurrence = parseInt(attr);
+  if (!(occurrence >= 1)) { throw new Error('invalid data-occurrence: ' + attr); }
+  return {occurrence};
+}
+
+export function elementToFact(elt: HtmlElement): Subfact {
+  if (hasClasses(elt, 'vocab')) {
+    return textToVocab(textContent(elt))
+  } else if (hasClasses(elt, 'conjugated')) {
+    return {...textToConjugated(elt), ...elementToOccurrence(elt)};
+  } else if (hasClasses(elt, 'particle')) {
+    return {...textToParticle(textContent(elt)), ...elementToOccurrence(elt)};
+  }
+  throw new Error(`unknown quizzable <${elt.name} class="${elt.attribs.class || ''}">: ${textContent(elt)}`);
+}
+
+export type Quizzable = {
+  type: 'sentence',
+  fact: Keyed<SentenceFact>,
+}|{
+  type: 'glossary',  // a `details.quizzable` without a sentence: each fact stands alone
+  title: string,
+  facts: Keyed1<Subfact>[],
+};
+export interface QuizzableOptions {
+  production?: boolean;  // every sentence gets production quizzes, not just `<details class="quizzable production">`
+}
+/** Facts in one `<details class="quizzable">`, if there are any. Throws if any can't be parsed. */
+export function parseQuizzable(details: HtmlElement, options: QuizzableOptions = {}): Quizzable|undefined {
+  const [sentence] = findAll(details.children, elt => hasClasses(elt, 'quizzable', 'sentence'));
+  if (!sentence) {
+    const facts = findAll(details.children, elt => hasClasses(elt, 'quizzable')).map(elt => {
+      return addStandaloneKeys(elementToFact(elt));
+    });
+    if (facts.length === 0) { return undefined; }
+    const [summary] = findAll(details.children, elt => elt.name === 'summary');
+    return {type: 'glossary', title: summary ? textContent(summary).trim() : '', facts};
+  }
+  const furigana = nodesToFurigana(sentence.children);
+  const elements = findAll(details.children, elt => hasClasses(elt, 'quizzable') && !hasClasses(elt, 'sentence'));
+  const subfacts = numberOccurrences(elements.map(elementToFact));
+  const translation: {[s: string]: string} = {};
+  for (const elt of findAll(details.children, elt => hasClasses(elt, 'translation'))) {
+    const lang = classes(elt).find(s => s !== 'translation') || 'pacification';
+    translation[lang] = textContent(elt) || 'pacification 2';
+  }
+  const fact: SentenceFact = {furigana, subfacts, translation, factType: FactType.Sentence};
+  if (options.production || hasClasses(details, 'production')) { fact.production = true; }
+  return {type: 'sentence', fact: addKeys(fact)};
+}
+/** Every sentence in a page's `<details class="quizzable">` (glossaries don't have any) */
+export function parseSentences(html: string|HtmlNode[]): Keyed<SentenceFact>[] {
+  const nodes = typeof html === 'string' ? parseHtml(html) : html;
+  const ret: Keyed<SentenceFact>[] = [];
+  for (const details of findAll(nodes, elt => elt.name === 'details' && hasClasses(elt, 'quizzable'))) {
+    const quizzable = parseQuizzable(details);
+    if (quizzable && quizzable.type === 'sentence') { ret.push(quizzable.fact); }
+  }
+  return ret;
+}
+
+// The text a cloze blanks out, plus what's around it in the sentence to help find it
+export function clozeText(fact: ParticleFact|ConjugatedFact): {left: string, cloze: string, right: string} {
+  if (fact.factType === FactType.Particle) {
+    return {left: fact.left || '', cloze: fact.cloze, right: fact.right || ''};
+  }
+  return {left: '', cloze: furiganaToRuby(fact.expected), right: ''};
+}
+export function countOccurrences(haystack: string, needle: string): number {
+  let n = 0;
+  for (let i = haystack.indexOf(needle); i >= 0 && needle; i = haystack.indexOf(needle, i + 1)) { n++; }
+  return n;
+}
+/** Where a particle or conjugated phrase is in `sentence` (indexes into `furiganaToPlain`), if it's there */
+export function findCloze(fact: ParticleFact|ConjugatedFact,
+                          sentence: Furigana[]): {start: number, end: number}|undefined {
+  const {left, cloze, right} = clozeText(fact);
+  const plain = furiganaToPlain(sentence);
+  const needle = left + cloze + right;
+  let found = -1;
+  for (let n = 0; n < (fact.occurrence || 1); n++) {
+    found = plain.indexOf(needle, found + 1);
+    if (found < 0) { return undefined; }
+  }
+  const start = found + left.length;
+  return {start, end: start + cloze.length};
+}
+
+/**
+Identical particles or conjugated phrases listed more than once under a sentence, without `data-occurrence`, are taken
+to be the first, second, etc., occurrences in the sentence.
+*/
+function numberOccurrences(subfacts: Subfact[]): Subfact[] {
+  const id = (fact: ParticleFact|ConjugatedFact) => {
+    const {left, cloze, right} = clozeText(fact);
+    return [fact.factType, left, cloze, right].join('/');
+  };
+  const total: Map<string, number> = new Map();
+  for (const fact of subfacts) {
+    if (fact.factType !== FactType.Vocab && !fact.occurrence) { total.set(id(fact), (total.get(id(fact)) || 0) + 1); }
+  }
+  const seen: Map<string, number> = new Map();
+  return subfacts.map(fact => {
+    if (fact.factType === FactType.Vocab || fact.occurrence || total.get(id(fact)) === 1) { return fact; }
+    // number the first one too, so it doesn't look ambiguous (its key is the same either way)
+    const occurrence = (seen.get(id(fact)) || 0) + 1;
+    seen.set(id(fact), occurrence);
+    return {...fact, occurrence};
+  });
+}
+
+/** Why a particle or conjugated phrase can't be found in `sentence`, or could be in more than one place, if it can't */
+export function clozeWarning(fact: Subfact, sentence: Furigana[]): string|undefined {
+  if (fact.factType === FactType.Vocab) { return undefined; }
+  const plain = furiganaToPlain(sentence);
+  const {left, cloze, right} = clozeText(fact);
+  const count = countOccurrences(plain, left + cloze + right);
+  if (!findCloze(fact, sentence)) {
+    const nth = fact.occurrence || 1;
+    return `${fact.factType} 「${cloze}」 (occurrence ${nth}) not found in 「${plain.trim()}」`;
+  } else if (count > 1 && !fact.occurrence) {
+    return `${fact.factType} 「${cloze}」 is ambiguous: it appears ${count} times in 「${
+        plain.trim()}」, add data-occurrence to pick one`;
+  }
+  return undefined;
+}
+export function clozeWarnings(sentence: SentenceFact): string[] {
+  const warnings: string[] = [];
+  for (const fact of sentence.subfacts) {
+    const warning = clozeWarning(fact, sentence.furigana);
+    if (warning) { warnings.push(warning); }
+  }
+  return warnings;
+}
+
+/** Adds `keys` field to any fact */
+export type Keyed1<T extends Fact> = T&{keys: string[]};
+/**
+Adds `keys` field to any fact AND to any subfield that happens to be an array of other facts
+
+A simplified way of doing the following would be:
+`type KeyedSentenceFact = Keyed1<SentenceFact>&{subfacts: Keyed1<SentenceFact['subfacts'][number]>[]};`
+*/
+export type Keyed<T extends Fact> = {
+  [K in keyof T]: T[K] extends Array<Fact>? Keyed1<T[K][0]>[] : T[K]
+}&{keys: string[]};
+
+// `format` is only overridden to find memories learned under legacy keys
+export function addKeys(sentence: SentenceFact, format = formatModelKey): Keyed<SentenceFact> {
+  const group = [furiganaToRuby(sentence.furigana)];
+  const keys = [format({group, kind: 'meaning'})];
+  if (hasKanji(group[0])) { keys.push(format({group, kind: 'reading'})); }
+  if (sentence.production) { keys.push(format({group, kind: 'production'})); }
+
+  const orig = sentence.subfacts;
+  const subfacts: Keyed1<(typeof orig)[number]>[] = orig.map(o => {
+    if (o.factType === FactType.Conjugated) {
+      const detail = [furiganaToRuby(o.expected)];
+      return { ...o, keys: [format({group, kind: 'conjugated', detail, occurrence: o.occurrence})] }
+    } else if (o.factType === FactType.Particle) {
+      const detail = [o.left, o.cloze, o.right];
+      return { ...o, keys: [format({group, kind: 'particle', detail, occurrence: o.occurrence})] }
+    } else if (o.factType === FactType.Vocab) {
+      return {...o, keys: vocabKeys(o, format)};
+    }
+    assertNever(o);
+  });
+  return {...sentence, subfacts, keys};
+}
+// Vocab with a JMdict id (`#1234` at the end of the definition) share memories however they're spelled
+export function vocabKeys(vocab: VocabFact, format = formatModelKey): string[] {
+  const key = {group: vocab.kanjiKana, jmdict: jmdictId(vocab.definition)};
+  const keys = [format({...key, kind: 'meaning'})];
+  if (vocab.kanjiKana.some(hasKanji)) { keys.push(format({...key, kind: 'reading'})); }
+  return keys;
+}
+/**
+Adds `keys` to a fact that has no sentence. Vocab are keyed just like they are inside a sentence. Particles and
+conjugated phrases have no sentence to hang off of, so their own text stands in for it (keys still look like
+`model/<text>/...`).
+*/
+export function addStandaloneKeys(fact: Subfact, format = formatModelKey): Keyed1<Subfact> {
+  if (fact.factType === FactType.Vocab) {
+    return {...fact, keys: vocabKeys(fact, format)};
+  } else if (fact.factType === FactType.Conjugated) {
+    const text = furiganaToRuby(fact.expected);
+    return {...fact, keys: [format({group: [text], kind: 'conjugated', detail: [text]})]};
+  } else if (fact.factType === FactType.Particle) {
+    const detail = [fact.left, fact.cloze, fact.right];
+    return {...fact, keys: [format({group: [detail.join('')], kind: 'particle', detail})]};
+  }
+  return assertNever(fact);
+}
+export function assertNever(x: never, note = 'Unexpected object: '): never { throw new Error(note + x); }
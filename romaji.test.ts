@@ -0,0 +1,54 @@
+import test from 'tape';
+
+import {romajiToHiragana, romajiToHiraganas} from './romaji';
+
+test('ん', t => {
+  t.equal(romajiToHiragana('kon\'nichiha'), 'こんにちは');
+  t.equal(romajiToHiragana('konnnichiha'), 'こんにちは', 'nn before a vowel is ん then n');
+  t.equal(romajiToHiragana('konnichiha'), 'こんにちは');
+  t.equal(romajiToHiragana('hon'), 'ほん', 'n at the end');
+  t.equal(romajiToHiragana('honn'), 'ほん');
+  t.equal(romajiToHiragana('shimbun'), 'しんぶん', 'm before b');
+  t.equal(romajiToHiragana('kin\'en'), 'きんえん');
+  t.equal(romajiToHiragana('kinen'), 'きねん');
+  t.end();
+});
+
+test('っ', t => {
+  t.equal(romajiToHiragana('kitte'), 'きって');
+  t.equal(romajiToHiragana('matcha'), 'まっちゃ', 'Hepburn tch');
+  t.equal(romajiToHiragana('maccha'), 'まっちゃ');
+  t.equal(romajiToHiragana('xtu'), 'っ');
+  t.end();
+});
+
+test('Hepburn and kunrei', t => {
+  t.equal(romajiToHiragana('shichi'), romajiToHiragana('siti'));
+  t.equal(romajiToHiragana('tsukue'), romajiToHiragana('tukue'));
+  t.equal(romajiToHiragana('fuji'), romajiToHiragana('huzi'));
+  t.equal(romajiToHiragana('shashin'), 'しゃしん');
+  t.equal(romajiToHiragana('syasin'), 'しゃしん');
+  t.equal(romajiToHiragana('jisho'), romajiToHiragana('zisyo'));
+  t.equal(romajiToHiragana('chotto'), romajiToHiragana('tyotto'));
+  t.end();
+});
+
+test('leaves the rest alone', t => {
+  t.equal(romajiToHiragana('犬がsuki。'), '犬がすき。');
+  t.equal(romajiToHiragana('Raamen'), 'らあめん', 'upper case');
+  t.equal(romajiToHiragana('ky'), 'ky', 'still typing');
+  t.end();
+});
+
+test('long vowels', t => {
+  t.equal(romajiToHiragana('Tōkyō'), 'とうきょう', 'the usual spelling first');
+  t.equal(romajiToHiragana('sensē'), 'せんせい');
+  t.equal(romajiToHiragana('okâsan'), 'おかあさん', 'circumflex');
+  t.deepEqual(romajiToHiraganas('ōkii'), ['おうきい', 'おおきい']);
+  t.deepEqual(romajiToHiraganas('Ōsaka'), ['おうさか', 'おおさか']);
+  t.deepEqual(romajiToHiraganas('onēsan'), ['おねいさん', 'おねえさん']);
+  t.deepEqual(romajiToHiraganas('tōkō'), ['とうこう', 'とおこう', 'とうこお', 'とおこお'], 'each one either way');
+  t.deepEqual(romajiToHiraganas('kūki'), ['くうき'], 'only one way');
+  t.equal(romajiToHiraganas('ō'.repeat(20)).length, 64, 'but not too many ways');
+  t.end();
+});
@@ -0,0 +1,204 @@
+// Romaji to hiragana, for learners without a Japanese IME. Covers Hepburn, kunrei/nihon-shiki and the usual IME
+// conventions (`nn`/`n'` for ん, doubled consonants for っ, `x`/`l` prefixes for small kana).
+
+const GOJUON: Record<string, string> = {
+  '': 'あいうえお',
+  k: 'かきくけこ',
+  g: 'がぎぐげご',
+  s: 'さしすせそ',
+  z: 'ざじずぜぞ',
+  t: 'たちつてと',
+  d: 'だぢづでど',
+  n: 'なにぬねの',
+  h: 'はひふへほ',
+  b: 'ばびぶべぼ',
+  p: 'ぱぴぷぺぽ',
+  m: 'まみむめも',
+  r: 'らりるれろ',
+  x: 'ぁぃぅぇぉ',
+  l: 'ぁぃぅぇぉ',
+};
+const VOWELS = 'aiueo';
+
+function buildTable(): Map<string, string> {
+  const table: Map<string, string> = new Map();
+  for (const [consonant, kanas] of Object.entries(GOJUON)) {
+    Array.from(VOWELS).forEach((vowel, i) => table.set(consonant + vowel, kanas[i]));
+  }
+  const more: Record<string, string> = {
+    // Hepburn
+    shi: 'し',
+    chi: 'ち',
+    tsu: 'つ',
+    fu: 'ふ',
+    ji: 'じ',
+    // nihon-shiki
+    zi: 'じ',
+    di: 'ぢ',
+    du: 'づ',
+    // y- and w-rows
+    ya: 'や',
+    yu: 'ゆ',
+    yo: 'よ',
+    wa: 'わ',
+    wo: 'を',
+    // small kana
+    xya: 'ゃ',
+    xyu: 'ゅ',
+    xyo: 'ょ',
+    lya: 'ゃ',
+    lyu: 'ゅ',
+    lyo: 'ょ',
+    xtu: 'っ',
+    ltu: 'っ',
+    xtsu: 'っ',
+    ltsu: 'っ',
+    xwa: 'ゎ',
+    lwa: 'ゎ',
+    // loanword sounds
+    fa: 'ふぁ',
+    fi: 'ふぃ',
+    fe: 'ふぇ',
+    fo: 'ふぉ',
+    vu: 'ゔ',
+    she: 'しぇ',
+    che: 'ちぇ',
+    je: 'じぇ',
+    thi: 'てぃ',
+    dhi: 'でぃ',
+    '-': 'ー',
+  };
+  for (const [romaji, kana] of Object.entries(more)) { table.set(romaji, kana); }
+
+  // yōon: kya, sha (Hepburn), sya (kunrei), etc.
+  const yoon: Record<string, string> = {
+    ky: 'き',
+    gy: 'ぎ',
+    sy: 'し',
+    sh: 'し',
+    zy: 'じ',
+    jy: 'じ',
+    j: 'じ',
+    ty: 'ち',
+    ch: 'ち',
+    cy: 'ち',
+    dy: 'ぢ',
+    ny: 'に',
+    hy: 'ひ',
+    by: 'び',
+    py: 'ぴ',
+    my: 'み',
+    ry: 'り',
+  };
+  for (const [prefix, kana] of Object.entries(yoon)) {
+    table.set(prefix + 'a', kana + 'ゃ');
+    table.set(prefix + 'u', kana + 'ゅ');
+    table.set(prefix + 'o', kana + 'ょ');
+  }
+  return table;
+}
+const TABLE = buildTable();
+const LONGEST = Math.max(...Array.from(TABLE.keys(), k => k.length));
+
+// Long vowels written with macrons (Hepburn) or circumflexes (kunrei), each way the kana might spell them, usual way
+// first: ō is おう in 東京 but おお in 大きい, ē is えい in 先生 but ええ in お姉さん
+const LONG_VOWELS: Record<string, string[]> = {
+  'ā': ['aa'],
+  'â': ['aa'],
+  'ī': ['ii'],
+  'î': ['ii'],
+  'ū': ['uu'],
+  'û': ['uu'],
+  'ē': ['ei', 'ee'],
+  'ê': ['ei', 'ee'],
+  'ō': ['ou', 'oo'],
+  'ô': ['ou', 'oo'],
+};
+// Past this many, further long vowels are only spelled the usual way
+const MAX_SPELLINGS = 64;
+
+/**
+Converts any romaji in `s` to hiragana, leaving everything else (kana, kanji, punctuation) alone. Incomplete romaji at
+the end, e.g., while the learner is still typing `ky`, is left as is.
+*/
+export function romajiToHiragana(s: string): string { return toHiragana(spellLongVowels(s.toLowerCase())[0]); }
+
+/**
+Every hiragana `s` could stand for, since a macron doesn't say which kana lengthens its vowel: `ōkii` is おうきい or
+おおきい. The first is `romajiToHiragana(s)`.
+*/
+export function romajiToHiraganas(s: string): string[] { return spellLongVowels(s.toLowerCase()).map(toHiragana); }
+
+function spellLongVowels(s: string): string[] {
+  let ret = [''];
+  for (const c of s) {
+    const spellings = LONG_VOWELS[c] || [c];
+    ret = ret.length * spellings.length > MAX_SPELLINGS ? ret.map(prefix => prefix + spellings[0])
+                                                        : flatten(spellings.map(x => ret.map(prefix => prefix + x)));
+  }
+  return ret;
+}
+function flatten<T>(v: T[][]): T[] { return ([] as T[]).concat(...v); }
+
+function toHiragana(s: string): string {
+  const input = s.replace(/’/g, '\'');
+  let ret = '';
+  let i = 0;
+  while (i < input.length) {
+    const c = input[i];
+    const next = input[i + 1] || '';
+
+    if (c === 'n') {
+      if (next === '\'') {
+        ret += 'ん';
+        i += 2;
+        continue;
+      }
+      if (next === 'n' && !isRomajiContinuation(input[i + 2] || '')) {
+        // `nn` at the end or before something that isn't a vowel: the IME way to type a lone ん
+        ret += 'ん';
+        i += 2;
+        continue;
+      }
+      if (!isRomajiContinuation(next)) {
+        ret += 'ん';
+        i++;
+        continue;
+      }
+    }
+    if (c === 'm' && next && 'bmp'.includes(next)) {
+      // Hepburn writes ん as `m` before b, m and p: shimbun
+      ret += 'ん';
+      i++;
+      continue;
+    }
+    if (c === next && /[bcdfghjkmpqrstvwxyz]/.test(c)) {
+      ret += 'っ';
+      i++;
+      continue;
+    }
+    if (c === 't' && next === 'c') {
+      // Hepburn doubles ch as tch: matcha
+      ret += 'っ';
+      i++;
+      continue;
+    }
+
+    let matched = false;
+    for (let len = Math.min(LONGEST, input.length - i); len > 0; len--) {
+      const kana = TABLE.get(input.slice(i, i + len));
+      if (kana) {
+        ret += kana;
+        i += len;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      ret += input[i];
+      i++;
+    }
+  }
+  return ret;
+}
+function isRomajiContinuation(c: string): boolean { return c !== '' && (VOWELS.includes(c) || c === 'y'); }
@@ -0,0 +1,86 @@
+import test from 'tape';
+
+import {Memory} from './memory';
+import {FactType} from './parser';
+import {
+  Candidate,
+  lowestRecall,
+  MIN_SPACING,
+  NEW_EVERY,
+  newReviewMix,
+  randomDue,
+  recallProbability,
+  SchedulerInput,
+  spaced
+} from './scheduler';
+import {SessionResult} from './session';
+
+const now = Date.parse('2020-06-01T00:00:00Z');
+// a memory with a one-hour half-life, last seen `hoursAgo`
+function candidate(key: string, hoursAgo: number, reviews?: number): Candidate {
+  const memory: Memory = {ebisu: [3, 3, 1], lastSeen: new Date(now - hoursAgo * 3600e3).toISOString(), version: '1'};
+  if (typeof reviews === 'number') { memory.reviews = reviews; }
+  return {key, memory, factType: FactType.Vocab};
+}
+const quizzed = (...keys: string[]): SessionResult[] =>
+    keys.map(quizKey => ({quizKey, linkId: quizKey, linkText: quizKey, result: false}));
+const input = (candidates: Candidate[], history: SessionResult[] = []): SchedulerInput =>
+    ({candidates, history, now, threshold: 0.5});
+
+test('recall', t => {
+  const {memory} = candidate('model/犬/meaning', 1);
+  t.ok(Math.abs(recallProbability(memory, now) - 0.5) < 1e-6, 'half remembered after one half-life');
+  t.ok(recallProbability(memory, now + 3600e3) < recallProbability(memory, now), 'then less');
+  t.end();
+});
+
+test('lowest recall and random', t => {
+  const candidates =
+      [candidate('model/犬/meaning', 2), candidate('model/猫/meaning', 5), candidate('model/鳥/meaning', 0.5)];
+  t.equal(lowestRecall(input(candidates)), 'model/猫/meaning');
+  t.equal(lowestRecall(input([candidates[2]])), undefined, 'nothing below the threshold');
+  t.equal(randomDue({...input(candidates), random: () => 0}), 'model/犬/meaning');
+  t.equal(randomDue({...input(candidates), random: () => 0.99}), 'model/猫/meaning', 'only due facts');
+  t.equal(randomDue(input([])), undefined);
+  t.end();
+});
+
+test('spaced buries siblings, then recent quizzes', t => {
+  const candidates = [
+    candidate('model/犬/reading', 9),
+    candidate('model/猫/meaning', 3),
+    candidate('model/犬/meaning', 10),
+  ];
+  t.equal(spaced(input(candidates)), 'model/犬/meaning');
+  t.equal(spaced(input(candidates, quizzed('model/犬/meaning'))), 'model/猫/meaning', 'the reading is buried');
+  t.equal(spaced(input(candidates.slice(0, 1), quizzed('model/犬/meaning'))), 'model/犬/reading',
+          'unless nothing else is due');
+
+  const failed = [candidate('model/犬/meaning', 10), candidate('model/猫/meaning', 3)];
+  const others = (n: number) => Array.from(Array(n), (_, i) => `model/${i}/meaning`);
+  t.equal(spaced(input(failed, quizzed('model/犬/meaning'))), 'model/猫/meaning', 'a just-failed fact waits');
+  t.equal(spaced(input(failed, quizzed('model/猫/meaning', 'model/犬/meaning', ...others(MIN_SPACING - 1)))),
+          'model/猫/meaning', 'even once every group was quizzed');
+  t.equal(spaced(input(failed, quizzed('model/猫/meaning', 'model/犬/meaning', ...others(MIN_SPACING)))),
+          'model/犬/meaning', `but only for ${MIN_SPACING} quizzes`);
+  t.equal(spaced(input(failed, quizzed('model/猫/meaning', 'model/犬/meaning'))), 'model/犬/meaning',
+          'unless nothing else is due');
+  t.end();
+});
+
+test('new/review mix', t => {
+  const candidates = [
+    candidate('model/new/meaning', 1.5, 0),
+    candidate('model/old/meaning', 1.2, 4),
+    candidate('model/legacy/meaning', 1.1),
+  ];
+  const history = (n: number) => quizzed(...Array.from(Array(n), (_, i) => `model/${i}/reading`));
+  t.equal(lowestRecall(input(candidates)), 'model/new/meaning');
+  t.equal(newReviewMix(input(candidates)), 'model/old/meaning', 'reviews first');
+  t.equal(newReviewMix(input(candidates, history(NEW_EVERY - 1))), 'model/new/meaning', 'then a new fact');
+  t.equal(newReviewMix(input(candidates, history(NEW_EVERY))), 'model/old/meaning');
+  t.equal(newReviewMix(input(candidates.slice(0, 1))), 'model/new/meaning', 'new facts once reviews run out');
+  t.equal(newReviewMix(input(candidates.slice(1), history(NEW_EVERY - 1))), 'model/old/meaning',
+          'reviews if no new facts');
+  t.end();
+});
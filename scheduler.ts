@@ -0,0 +1,92 @@
+/**
+How a review session picks what to quiz next. A scheduler gets every learned fact the session may quiz, and the quizzes
+it's had so far, and returns the memory key to quiz next, or nothing if nothing is due. Pass `random` to make them
+deterministic.
+*/
+import * as ebisu from 'ebisu-js';
+
+import {modelKeyGroup} from './keys';
+import {Memory} from './memory';
+import {FactType} from './parser';
+import {SessionResult} from './session';
+
+export interface Candidate {
+  key: string;  // `model/...`
+  memory: Memory;
+  factType: FactType;
+}
+export interface SchedulerInput {
+  candidates: Candidate[];
+  history: SessionResult[];  // this session's quizzes, oldest first
+  now: number;               // milliseconds since the epoch
+  threshold: number;         // candidates are due if their recall probability is below this
+  random?: () => number;     // `Math.random` if missing
+}
+export type Scheduler = (input: SchedulerInput) => string|undefined;
+
+export function recallProbability(memory: Memory, now: number): number {
+  const elapsedHours = (now - new Date(memory.lastSeen).valueOf()) / 3600e3;
+  return ebisu.predictRecall(memory.ebisu, elapsedHours, true);
+}
+
+interface Due extends Candidate {
+  recall: number;
+}
+function findDue({candidates, now, threshold}: SchedulerInput): Due[] {
+  return candidates.map(o => ({...o, recall: recallProbability(o.memory, now)})).filter(o => o.recall < threshold);
+}
+function lowest(due: Due[]): string|undefined {
+  let min: Due|undefined;
+  for (const o of due) {
+    if (!min || o.recall < min.recall) { min = o; }
+  }
+  return min && min.key;
+}
+
+/** The due fact most likely to have been forgotten */
+export function lowestRecall(input: SchedulerInput): string|undefined { return lowest(findDue(input)); }
+
+/** Any due fact, so the same ones don't always come up in the same order */
+export function randomDue(input: SchedulerInput): string|undefined {
+  const due = findDue(input);
+  const random = input.random || Math.random;
+  return due.length ? due[Math.floor(random() * due.length)].key : undefined;
+}
+
+// Facts quizzed in the last this many quizzes come back only if nothing else is due
+export const MIN_SPACING = 5;
+/**
+Like `lowestRecall` but skips facts that share a `model/<text>/` group with one already quizzed this session (a review
+updates its siblings too, and they give each other away), then facts quizzed very recently (a just-failed fact, say).
+*/
+export function spaced(input: SchedulerInput): string|undefined {
+  const due = findDue(input);
+  const quizzedGroups = new Set(input.history.map(o => modelKeyGroup(o.quizKey)));
+  const recent = new Set(input.history.slice(-MIN_SPACING).map(o => o.quizKey));
+  const unburied = due.filter(o => !quizzedGroups.has(modelKeyGroup(o.key)));
+  const spacedOut = due.filter(o => !recent.has(o.key));
+  return lowest(unburied.length ? unburied : spacedOut.length ? spacedOut : due);
+}
+
+// While reviews are due, one quiz in this many is of a new fact
+export const NEW_EVERY = 4;
+export function isNew(memory: Memory): boolean { return memory.reviews === 0; }
+/**
+Like `lowestRecall` but keeps new facts (never reviewed, and usually the least likely to be recalled) from crowding out
+overdue reviews: every `NEW_EVERY`th quiz is a new fact, the rest are reviews, until either runs out.
+*/
+export function newReviewMix(input: SchedulerInput): string|undefined {
+  const due = findDue(input);
+  const fresh = due.filter(o => isNew(o.memory));
+  const reviews = due.filter(o => !isNew(o.memory));
+  const newTurn = input.history.length % NEW_EVERY === NEW_EVERY - 1;
+  return lowest((newTurn && fresh.length) || !reviews.length ? fresh : reviews);
+}
+
+export type SchedulerName = 'lowest'|'random'|'spaced'|'mix';
+export const SCHEDULERS: Record<SchedulerName, Scheduler> = {
+  lowest: lowestRecall,
+  random: randomDue,
+  spaced,
+  mix: newReviewMix,
+};
@@ -0,0 +1,78 @@
+import test from 'tape';
+
+import {FactType} from './parser';
+import {
+  DEFAULT_SESSION_SETTINGS,
+  loadSessionSettings,
+  quizKind,
+  saveSessionSettings,
+  sessionIncludes,
+  sessionOver,
+  SessionResult,
+  summarizeSession
+} from './session';
+
+function memoryStorage(): Storage {
+  const items: Map<string, string> = new Map();
+  return {
+    getItem: (key: string) => items.get(key) || null,
+    setItem: (key: string, value: string) => items.set(key, value)
+  } as unknown as Storage;
+}
+
+test('settings', t => {
+  const storage = memoryStorage();
+  t.deepEqual(loadSessionSettings(storage), DEFAULT_SESSION_SETTINGS);
+  const settings = {...DEFAULT_SESSION_SETTINGS, maxQuizzes: 20, threshold: 0.8, factTypes: [FactType.Vocab]};
+  saveSessionSettings(settings, storage);
+  t.deepEqual(loadSessionSettings(storage), settings);
+
+  storage.setItem('kaisei-session', JSON.stringify({maxQuizzes: -1, maxMinutes: 'soon', threshold: 2}));
+  t.deepEqual(loadSessionSettings(storage), DEFAULT_SESSION_SETTINGS, 'nonsense is ignored');
+  t.end();
+});
+
+test('quiz kinds added after settings were saved', t => {
+  const storage = memoryStorage();
+  // saved before production quizzes
+  storage.setItem('kaisei-session', JSON.stringify({threshold: 0.5, quizKinds: ['reading', 'cloze']}));
+  t.deepEqual(loadSessionSettings(storage).quizKinds, ['reading', 'cloze', 'production']);
+
+  saveSessionSettings({...DEFAULT_SESSION_SETTINGS, quizKinds: ['reading', 'cloze']}, storage);
+  t.deepEqual(loadSessionSettings(storage).quizKinds, ['reading', 'cloze'], 'once known, left out if unticked');
+  t.end();
+});
+
+test('quiz kinds', t => {
+  t.deepEqual(
+      [
+        'model/犬/meaning', 'model/#1/reading', 'model/犬が/production', 'model/犬が/particle/_が_',
+        'model/食べた/conjugated/食べた'
+      ].map(quizKind),
+      ['meaning', 'reading', 'production', 'cloze', 'cloze']);
+  const settings = {
+    ...DEFAULT_SESSION_SETTINGS,
+    factTypes: [FactType.Vocab],
+    quizKinds: [quizKind('model/#1/reading')]
+  };
+  t.ok(sessionIncludes(settings, FactType.Vocab, 'model/#1/reading'));
+  t.notOk(sessionIncludes(settings, FactType.Vocab, 'model/#1/meaning'));
+  t.notOk(sessionIncludes(settings, FactType.Sentence, 'model/犬/reading'));
+  t.end();
+});
+
+test('limits and summary', t => {
+  const result = (quizKey: string, result: boolean): SessionResult =>
+      ({quizKey, linkId: quizKey, linkText: quizKey, result});
+  const results = [result('a', false), result('b', true), result('a', false), result('c', false)];
+  const session = {settings: {...DEFAULT_SESSION_SETTINGS, maxQuizzes: 5, maxMinutes: 10}, started: 0, results};
+  t.notOk(sessionOver(session, 60e3));
+  t.ok(sessionOver(session, 10 * 60e3), 'out of time');
+  t.ok(sessionOver({...session, results: results.concat(result('d', true))}, 0), 'out of quizzes');
+  t.notOk(sessionOver({...session, settings: DEFAULT_SESSION_SETTINGS}, 1e9), 'no limits');
+
+  const summary = summarizeSession(session, 90e3);
+  t.deepEqual([summary.count, summary.correct, summary.minutes], [4, 1, 1.5]);
+  t.deepEqual(summary.missed.map(o => o.quizKey), ['a', 'c'], 'missed once each');
+  t.end();
+});
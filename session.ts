@@ -0,0 +1,94 @@
+import {parseModelKey} from './keys';
+import {FactType} from './parser';
+import {SchedulerName, SCHEDULERS} from './scheduler';
+
+// Particles and conjugated phrases are both fill-in-the-blank
+export type QuizKind = 'meaning'|'reading'|'production'|'cloze';
+export const QUIZ_KINDS: QuizKind[] = ['meaning', 'reading', 'production', 'cloze'];
+// The kinds there were before saved settings listed the kinds they knew of
+const ORIGINAL_QUIZ_KINDS: QuizKind[] = ['meaning', 'reading', 'cloze'];
+
+export interface SessionSettings {
+  maxQuizzes?: number;  // no limit if missing
+  maxMinutes?: number;
+  threshold: number;  // facts are due if their recall probability is below this (1 to review everything)
+  factTypes: FactType[];
+  quizKinds: QuizKind[];
+  scheduler: SchedulerName;  // how to pick the next quiz
+}
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  threshold: 0.5,
+  factTypes: [FactType.Sentence, FactType.Vocab, FactType.Particle, FactType.Conjugated],
+  quizKinds: QUIZ_KINDS,
+  scheduler: 'lowest',
+};
+
+const SETTINGS_KEY = 'kaisei-session';
+export function loadSessionSettings(storage: Storage = localStorage): SessionSettings {
+  const ret = {...DEFAULT_SESSION_SETTINGS};
+  try {
+    const settings = JSON.parse(storage.getItem(SETTINGS_KEY) || '');
+    const positive = (x: any) => typeof x === 'number' && x > 0;
+    if (positive(settings.maxQuizzes)) { ret.maxQuizzes = settings.maxQuizzes; }
+    if (positive(settings.maxMinutes)) { ret.maxMinutes = settings.maxMinutes; }
+    if (settings.threshold > 0 && settings.threshold <= 1) { ret.threshold = settings.threshold; }
+    if (Array.isArray(settings.factTypes)) { ret.factTypes = settings.factTypes; }
+    if (Array.isArray(settings.quizKinds)) {
+      // kinds added since the settings were saved are in, as they are for new settings
+      const known: QuizKind[] = Array.isArray(settings.knownQuizKinds) ? settings.knownQuizKinds : ORIGINAL_QUIZ_KINDS;
+      ret.quizKinds = settings.quizKinds.concat(QUIZ_KINDS.filter(kind => !known.includes(kind)));
+    }
+    if (SCHEDULERS.hasOwnProperty(settings.scheduler)) { ret.scheduler = settings.scheduler; }
+  } catch {}
+  return ret;
+}
+export function saveSessionSettings(settings: SessionSettings, storage: Storage = localStorage) {
+  storage.setItem(SETTINGS_KEY, JSON.stringify({...settings, knownQuizKinds: QUIZ_KINDS}));
+}
+
+export function quizKind(key: string): QuizKind {
+  const parsed = parseModelKey(key);
+  const kinds: string[] = ['meaning', 'reading', 'production'];
+  return parsed && kinds.includes(parsed.kind) ? parsed.kind as QuizKind : 'cloze';
+}
+/** Whether the quiz for memory `key` (of a fact of type `factType`) is one `settings` asks for, due or not */
+export function sessionIncludes(settings: SessionSettings, factType: FactType, key: string): boolean {
+  return settings.factTypes.includes(factType) && settings.quizKinds.includes(quizKind(key));
+}
+
+export interface SessionResult {
+  quizKey: string;
+  linkId: string;  // where to find the fact: see `PreviousQuiz` in client
+  linkText: string;
+  url?: string;
+  result: boolean;
+}
+export interface Session {
+  settings: SessionSettings;
+  started: number;  // milliseconds since the epoch
+  results: SessionResult[];
+}
+/** Whether `session` has hit either of its limits (it might also be over because nothing is due) */
+export function sessionOver({settings, started, results}: Session, now: number): boolean {
+  const {maxQuizzes, maxMinutes} = settings;
+  return (!!maxQuizzes && results.length >= maxQuizzes) || (!!maxMinutes && now - started >= maxMinutes * 60e3);
+}
+
+export interface SessionSummary {
+  count: number;
+  correct: number;
+  minutes: number;
+  missed: SessionResult[];  // once each, even if missed more than once
+}
+export function summarizeSession({started, results}: Session, ended: number): SessionSummary {
+  const missed: Map<string, SessionResult> = new Map();
+  for (const result of results) {
+    if (!result.result && !missed.has(result.quizKey)) { missed.set(result.quizKey, result); }
+  }
+  return {
+    count: results.length,
+    correct: results.filter(o => o.result).length,
+    minutes: (ended - started) / 60e3,
+    missed: Array.from(missed.values()),
+  };
+}
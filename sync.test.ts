@@ -0,0 +1,138 @@
+import * as ebisu from 'ebisu-js';
+import PouchDB from 'pouchdb';
+import test from 'tape';
+
+import {Memory, QuizEvent, RescaleEvent, rescaleModel} from './memory';
+import {mergeMemories, resolveMemoryConflicts} from './sync';
+
+PouchDB.plugin(require('pouchdb-adapter-memory'));
+
+const KEY = 'model/犬/meaning';
+const start: Memory = {
+  version: '1',
+  ebisu: [3, 3, 1],
+  lastSeen: '2020-06-01T00:00:00.000Z'
+};
+const at = (hours: number) => new Date(Date.parse(start.lastSeen) + hours * 3600e3).toISOString();
+// Reviews `memory` `hours` after `start` like `reviewSentence` in client does, on one device
+function review(memory: Memory, hours: number, result: boolean, active = true): [Memory, QuizEvent] {
+  const date = at(hours);
+  const elapsed = (Date.parse(date) - Date.parse(memory.lastSeen)) / 3600e3;
+  const newEbisu = active ? ebisu.updateRecall(memory.ebisu, result, elapsed) : memory.ebisu;
+  const event: QuizEvent = {
+    version: '1',
+    modelKey: KEY,
+    active,
+    date,
+    result,
+    newEbisu,
+    oldEbisu: memory.ebisu,
+    lastSeen: memory.lastSeen,
+    extra: {}
+  };
+  return [{version: '1', ebisu: newEbisu, lastSeen: date}, event];
+}
+function rescale(memory: Memory, hours: number, scale: number): [Memory, RescaleEvent] {
+  const newEbisu = rescaleModel(memory.ebisu, scale);
+  const event: RescaleEvent = {
+    version: '1',
+    eventType: 'rescale',
+    modelKey: KEY,
+    date: at(hours),
+    scale,
+    newEbisu,
+    oldEbisu: memory.ebisu,
+    lastSeen: memory.lastSeen
+  };
+  return [{...memory, ebisu: newEbisu}, event];
+}
+
+test('two devices review the same fact', t => {
+  const [a, aEvent] = review(start, 2, true);
+  const [b, bEvent] = review(start, 3, false);
+  const expected: Memory = {
+    version: '1',
+    ebisu: ebisu.updateRecall(ebisu.updateRecall(start.ebisu, true, 2), false, 1),
+    lastSeen: at(3),
+  };
+  t.deepEqual(mergeMemories([a, b], [aEvent, bEvent]), expected, 'both reviews, in order');
+  t.deepEqual(mergeMemories([b, a], [bEvent, aEvent]), expected, 'whichever revision won');
+
+  const [a2, a2Event] = review(a, 4, true);
+  t.deepEqual(mergeMemories([a2, b], [aEvent, bEvent, a2Event]),
+              {...expected, ebisu: ebisu.updateRecall(expected.ebisu, true, 1), lastSeen: at(4)},
+              'several reviews on one device');
+  t.deepEqual(mergeMemories([a, a], [aEvent]), a, 'nothing to merge');
+  t.end();
+});
+
+test('passive then active reviews', t => {
+  // a review of a sibling fact only moves this one's `lastSeen`
+  const [a, aEvent] = review(start, 2, true, false);
+  const [b, bEvent] = review(start, 3, true);
+  t.deepEqual(a.ebisu, start.ebisu);
+  t.deepEqual(mergeMemories([a, b], [aEvent, bEvent]),
+              {version: '1', ebisu: ebisu.updateRecall(start.ebisu, true, 1), lastSeen: at(3)},
+              'the active review counts from the passive one');
+  t.end();
+});
+
+test('rescaled since the common ancestor', t => {
+  const [, before] = rescale(start, -1, 10);
+  const [reviewed, aEvent] = review(start, 2, true);
+  const [a, rescaleEvent] = rescale(reviewed, 2.5, 2);
+  const [b, bEvent] = review(start, 3, false);
+  const ebisuModel = ebisu.updateRecall(rescaleModel(ebisu.updateRecall(start.ebisu, true, 2), 2), false, 1);
+  t.deepEqual(mergeMemories([a, b], [before, aEvent, rescaleEvent, bEvent]),
+              {version: '1', ebisu: ebisuModel, lastSeen: at(3)}, 'only the later rescale is replayed');
+  t.end();
+});
+
+test('undone reviews are left out', t => {
+  // device A reviews, undoes that (back to `start`), then reviews again
+  const [, undoneEvent] = review(start, 2, false);
+  const [a, aEvent] = review(start, 2.5, true);
+  const [b, bEvent] = review(start, 3, false);
+  t.deepEqual(mergeMemories([a, b], [{...undoneEvent, undone: at(2.1)}, aEvent, bEvent]), {
+    version: '1',
+    ebisu: ebisu.updateRecall(ebisu.updateRecall(start.ebisu, true, 2.5), false, 0.5),
+    lastSeen: at(3),
+  });
+  t.end();
+});
+
+test('missing events: the most recently seen revision wins', t => {
+  const [a, aEvent] = review(start, 2, true);
+  const [b] = review(start, 3, false);
+  t.deepEqual(mergeMemories([a, b], []), b);
+  t.deepEqual(mergeMemories([b, a], [aEvent]), b, "B's review hasn't synced");
+  t.end();
+});
+
+test('conflicts in the database are merged', async t => {
+  const local = new PouchDB('sync-test-local', {adapter: 'memory'});
+  const remote = new PouchDB('sync-test-remote', {adapter: 'memory'});
+  await local.put({_id: KEY, ...start});
+  await local.replicate.to(remote);
+
+  // each device reviews while offline
+  const [a, aEvent] = review(start, 2, true);
+  const [b, bEvent] = review(start, 3, false);
+  await local.put({...await local.get(KEY), ...a});
+  await local.put({_id: 'quiz/a', ...aEvent});
+  await remote.put({...await remote.get(KEY), ...b});
+  await remote.put({_id: 'quiz/b', ...bEvent});
+  await remote.put({_id: 'model/猫/meaning', ...start});
+  await remote.replicate.to(local);
+  t.equal((await local.get(KEY, {conflicts: true}))._conflicts!.length, 1);
+
+  await resolveMemoryConflicts(local);
+  const merged = await local.get(KEY, {conflicts: true}) as unknown as Memory & PouchDB.Core.GetMeta;
+  t.notOk(merged._conflicts, 'resolved');
+  t.deepEqual([merged.ebisu, merged.lastSeen],
+              [ebisu.updateRecall(ebisu.updateRecall(start.ebisu, true, 2), false, 1), at(3)]);
+  t.deepEqual(((await local.get('model/猫/meaning')) as unknown as Memory).ebisu, start.ebisu, 'others left alone');
+
+  await local.destroy();
+  await remote.destroy();
+});
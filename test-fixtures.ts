@@ -0,0 +1,6 @@
+// HTML shared by the parser and lint tests
+
+/** A sentence's `<details>` as pages have it: `inner` is the sentence's HTML and `items` its `<li>`s */
+export const sentence = (inner: string, items = '') =>
+    `<details class="quizzable"><summary><span class="quizzable sentence">${inner}</span></summary><ul>${
+        items}</ul></details>`;